@@ -1,14 +1,37 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { ProviderFactory } from '@/services/providerFactory';
-import { ChatMessage } from '@/lib/types/chat';
+import { z } from 'zod/v4';
+import { ProviderRouter } from '@/services/providerRouter';
+import { ChatOrchestrator } from '@/services/chatOrchestrator';
+import { UsageTracker } from '@/services/usageTracker';
+import { encodeServerSentEvent } from '@/app/utils/sse';
+import { latestUserHasImages } from '@/app/utils/chatContent';
+import { Logger } from '@/app/utils/logger';
+
+const logger = new Logger("ChatAPI");
+
+// Settings from the chat UI; each provider clamps them to what its API accepts
+const generationOptionsSchema = z.object({
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().min(1).optional(),
+  stopSequences: z.array(z.string().min(1)).max(5).optional(),
+  systemPrompt: z.string().optional()
+}).optional();
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    console.log('Request body received:', JSON.stringify(body, null, 2));
-    const { messages, provider, model } = body;
+    const { messages, provider, model, stream, sessionId } = body;
 
-    const providerInstance = ProviderFactory.getProvider(provider);
+    const generation = generationOptionsSchema.safeParse(body.generation);
+    if (!generation.success) {
+      return NextResponse.json(
+        { error: `Invalid generation options: ${generation.error.issues.map(err => `${err.path.join('.')} ${err.message}`).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // 'auto' lets the router pick; a named provider is tried first and falls back on outages
+    const providerInstance = ProviderRouter.route(provider);
     if (!providerInstance) {
       return NextResponse.json(
         { error: `Provider ${provider} not found` },
@@ -16,10 +39,73 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    console.log('Messages being sent to provider:', JSON.stringify(messages, null, 2));
-    const response = await providerInstance.sendMessage(messages, model);
+    // 'auto' picks a vision-capable model itself; a chosen model must support images attached
+    // to this message. Images from earlier turns are described to models that can't see them
+    if (provider !== 'auto' && latestUserHasImages(messages) && !providerInstance.getModelSpec(model).capabilities.vision) {
+      return NextResponse.json(
+        { error: `The selected ${provider} model (${model || 'default'}) does not accept images. Choose a vision-capable model or remove the attached images.` },
+        { status: 400 }
+      );
+    }
+
+    if (stream) {
+      // Stream deltas as Server-Sent Events, finishing with a 'done' event that carries the
+      // usage, or an 'error' event if the reply failed partway
+      let closed = false;
+      // Aborts the vendor calls still in flight when the client goes away
+      const abort = new AbortController();
+      const eventStream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          // Once the client has gone away there is nobody left to send to
+          const send = (event: string, data: unknown) => {
+            if (closed) return;
+            try {
+              controller.enqueue(encodeServerSentEvent(event, data));
+            } catch {
+              closed = true;
+            }
+          };
+
+          try {
+            const { result: answeredBy, usage } = await UsageTracker.track(sessionId, () =>
+              ChatOrchestrator.streamMessage(provider, messages, model, delta => send('delta', delta), generation.data, abort.signal)
+            );
+            send('done', { success: true, usage, answeredBy });
+          } catch (error) {
+            if (!abort.signal.aborted) logger.error('Streamed chat reply failed', error);
+            send('error', { success: false, error: error instanceof Error ? error.message : 'Unknown error occurred' });
+          } finally {
+            if (!closed) {
+              closed = true;
+              controller.close();
+            }
+          }
+        },
+        cancel() {
+          closed = true;
+          abort.abort();
+        }
+      });
+
+      return new Response(eventStream, {
+        headers: {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache, no-transform',
+          'Connection': 'keep-alive'
+        }
+      });
+    }
+
+    const { result: response, usage } = await UsageTracker.track(sessionId, () =>
+      ChatOrchestrator.sendMessage(provider, messages, model, generation.data)
+    );
 
-    return NextResponse.json({ success: true, content: response });
+    return NextResponse.json({
+      success: true,
+      content: response.content,
+      usage,
+      answeredBy: response.answeredBy
+    });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
     return NextResponse.json(
@@ -27,4 +113,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server';
 import { MCPServerManager } from '@/services/mcp-server';
-import { env } from '@/app/config/env';
+import { getMCPServerConfig } from '@/services/mcpServerConfig';
 
 export async function POST(request: Request) {
   const { server, toolName, args } = await request.json();
@@ -12,17 +12,17 @@ export async function POST(request: Request) {
     );
   }
 
-  // Find the server URL from environment
-  const serverUrl = env.MCP_SERVERS.find(serverUrl => serverUrl === server);
+  // Servers are addressed by their short registry ID
+  const serverConfig = getMCPServerConfig(server);
   
-  if (!serverUrl) {
+  if (!serverConfig?.enabled) {
     return NextResponse.json(
-      { success: false, error: `Server '${server}' not found` },
+      { success: false, error: serverConfig ? `Server '${server}' is disabled` : `Server '${server}' not found` },
       { status: 404 }
     );
   }
 
-  const manager = MCPServerManager.getInstance(serverUrl);
+  const manager = MCPServerManager.getInstance(serverConfig.id);
   
   try {
     const result = await manager.executeWithConnection(async (client) => {
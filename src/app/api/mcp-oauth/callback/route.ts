@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { DynamicDiscovery } from '@/lib/interfaces/DynamicDiscoveryInterface';
+import { cacheService } from '@/services/cache';
+import { MCPServerManager } from '@/services/mcp-server';
+import { Logger } from '@/app/utils/logger';
+
+const logger = new Logger("MCPOAuthCallback");
+const discovery = new DynamicDiscovery();
+
+// Redirect target of the OAuth authorization code flow for protected MCP servers.
+// Sends the user back to the app with the outcome in the query string
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const code = searchParams.get('code');
+  const state = searchParams.get('state');
+  const back = (params: Record<string, string>) =>
+    NextResponse.redirect(new URL(`/?${new URLSearchParams(params)}`, request.url));
+
+  const authError = searchParams.get('error');
+  if (authError) {
+    return back({ mcp_auth_error: searchParams.get('error_description') || authError });
+  }
+
+  if (!code || !state) {
+    return back({ mcp_auth_error: 'The authorization response is missing its code or state' });
+  }
+
+  const serverId = await cacheService.takeOAuthState(state);
+  if (!serverId) {
+    return back({ mcp_auth_error: 'The authorization request expired or was already used' });
+  }
+
+  try {
+    await MCPServerManager.getInstance(serverId).finishAuthorization(code);
+    await discovery.refreshServerTools(serverId).catch(() => undefined);
+    return back({ mcp_authorized: serverId });
+  } catch (error) {
+    logger.error(`Failed to finish authorization for MCP server ${serverId}`, error);
+    return back({ mcp_auth_error: error instanceof Error ? error.message : 'Authorization failed' });
+  }
+}
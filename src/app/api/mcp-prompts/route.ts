@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod/v4';
+import { getMCPServerConfig } from '@/services/mcpServerConfig';
+import { getMCPPromptMessages, listMCPPrompts, listServerPrompts } from '@/services/mcpPrompts';
+
+const getPromptSchema = z.object({
+  server: z.string().min(1),
+  name: z.string().min(1),
+  arguments: z.record(z.string(), z.string()).optional().default({})
+});
+
+function serverError(server: string) {
+  const serverConfig = getMCPServerConfig(server);
+  if (serverConfig?.enabled) return null;
+
+  return NextResponse.json(
+    { success: false, error: serverConfig ? `Server '${server}' is disabled` : `Server '${server}' not found` },
+    { status: 404 }
+  );
+}
+
+// Prompts offered by every enabled server, or by one with ?server=
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const server = searchParams.get('server');
+
+  if (server) {
+    const error = serverError(server);
+    if (error) return error;
+  }
+
+  try {
+    const prompts = server ? await listServerPrompts(server) : await listMCPPrompts();
+
+    return NextResponse.json({
+      success: true,
+      prompts,
+      count: prompts.length
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Fills in a prompt's arguments and returns its messages as chat messages
+export async function POST(request: Request) {
+  const parsed = getPromptSchema.safeParse(await request.json().catch(() => null));
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { success: false, error: `Invalid prompt request: ${parsed.error.issues.map(err => `${err.path.join('.')} ${err.message}`).join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const { server, name, arguments: args } = parsed.data;
+  const error = serverError(server);
+  if (error) return error;
+
+  try {
+    const messages = await getMCPPromptMessages(server, name, args);
+
+    return NextResponse.json({
+      success: true,
+      server,
+      messages
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, server, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
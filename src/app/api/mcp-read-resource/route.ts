@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { getMCPServerConfig } from '@/services/mcpServerConfig';
+import { readMCPResource } from '@/services/mcpResources';
+
+// Contents of one resource as text or base64 blobs, each with its MIME type
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const serverName = searchParams.get('server');
+  const uri = searchParams.get('uri');
+  if (!serverName || !uri) {
+    return NextResponse.json(
+      { success: false, error: 'Server and uri parameters are required' },
+      { status: 400 }
+    );
+  }
+
+  const serverConfig = getMCPServerConfig(serverName);
+
+  if (!serverConfig?.enabled) {
+    return NextResponse.json(
+      { success: false, error: serverConfig ? `Server '${serverName}' is disabled` : `Server '${serverName}' not found` },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const contents = await readMCPResource(serverConfig.id, uri);
+
+    return NextResponse.json({
+      success: true,
+      server: serverName,
+      uri,
+      contents
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        server: serverName,
+        uri,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
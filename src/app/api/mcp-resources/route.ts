@@ -1,39 +1,30 @@
 import { NextResponse } from 'next/server';
-import { MCPServerManager } from '@/services/mcp-server';
-import { env } from '@/app/config/env';
+import { getMCPServerConfig } from '@/services/mcpServerConfig';
+import { listMCPResources, listServerResources } from '@/services/mcpResources';
 
+// Resources offered by every enabled server, or by one with ?server=
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
   const serverName = searchParams.get('server');
-  if (!serverName) {
-    return NextResponse.json(
-      { success: false, error: 'Server parameter is required' },
-      { status: 400 }
-    );
-  }
 
-  
-  // Find the server URL from environment
-  const serverUrl = env.MCP_SERVERS.find(server => server === serverName);
-  
-  if (!serverUrl) {
-    return NextResponse.json(
-      { success: false, error: `Server '${serverName}' not found` },
-      { status: 404 }
-    );
+  // Servers are addressed by their short registry ID
+  if (serverName) {
+    const serverConfig = getMCPServerConfig(serverName);
+
+    if (!serverConfig?.enabled) {
+      return NextResponse.json(
+        { success: false, error: serverConfig ? `Server '${serverName}' is disabled` : `Server '${serverName}' not found` },
+        { status: 404 }
+      );
+    }
   }
 
-  const manager = MCPServerManager.getInstance(serverUrl);
-  
   try {
-    const resources = await manager.executeWithConnection(async (client) => {
-      const response = await client.listResources();
-      return response.resources;
-    });
+    const resources = serverName ? await listServerResources(serverName) : await listMCPResources();
 
     return NextResponse.json({ 
       success: true, 
-      server: serverName,
+      ...(serverName && { server: serverName }),
       resources,
       count: resources.length
     });
@@ -41,10 +32,10 @@ export async function GET(request: Request) {
     return NextResponse.json(
       { 
         success: false, 
-        server: serverName,
+        ...(serverName && { server: serverName }),
         error: error instanceof Error ? error.message : 'Unknown error' 
       },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
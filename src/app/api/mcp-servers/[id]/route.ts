@@ -0,0 +1,93 @@
+import { NextResponse } from 'next/server';
+import { DynamicDiscovery } from '@/lib/interfaces/DynamicDiscoveryInterface';
+import { getMCPServerSummary, MCPServerManager } from '@/services/mcp-server';
+import { MCPOAuthProvider } from '@/services/mcpOAuthProvider';
+import { checkAdminAuthorization } from '@/app/utils/adminAuth';
+import {
+  getMCPServerConfig,
+  MCPServerConfigError,
+  removeMCPServerConfig,
+  updateMCPServerConfig
+} from '@/services/mcpServerConfig';
+
+const discovery = new DynamicDiscovery();
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function notFound(id: string) {
+  return NextResponse.json(
+    { success: false, error: `Server '${id}' not found` },
+    { status: 404 }
+  );
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const server = getMCPServerConfig(id);
+
+  if (!server) {
+    return notFound(id);
+  }
+
+  return NextResponse.json({ success: true, server: getMCPServerSummary(server) });
+}
+
+// Updates any setting but the ID, including { enabled: false } to switch a server off.
+// The open session is closed so the next call uses the new settings
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const unauthorized = checkAdminAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  const { id } = await params;
+
+  if (!getMCPServerConfig(id)) {
+    return notFound(id);
+  }
+
+  try {
+    const changes = await request.json();
+    if (!changes || typeof changes !== 'object' || Array.isArray(changes)) {
+      throw new MCPServerConfigError('Expected an object of settings to change');
+    }
+
+    const server = updateMCPServerConfig(id, changes);
+    await MCPServerManager.reset(id);
+
+    if (server.enabled) {
+      await discovery.refreshServerTools(id).catch(() => undefined);
+    } else {
+      await discovery.forgetServer(id);
+    }
+
+    return NextResponse.json({ success: true, server: getMCPServerSummary(server) });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: error instanceof MCPServerConfigError || error instanceof SyntaxError ? 400 : 500 }
+    );
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const unauthorized = checkAdminAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  const { id } = await params;
+
+  try {
+    if (!removeMCPServerConfig(id)) {
+      return notFound(id);
+    }
+
+    await MCPServerManager.reset(id);
+    await discovery.forgetServer(id);
+    await MCPOAuthProvider.clear(id);
+
+    return NextResponse.json({ success: true, id });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { getMCPServerSummary, MCPServerManager } from '@/services/mcp-server';
+import { getMCPServerConfig } from '@/services/mcpServerConfig';
+
+// Connects (or reuses the open session) and pings the server
+export async function POST(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const server = getMCPServerConfig(id);
+
+  if (!server) {
+    return NextResponse.json(
+      { success: false, error: `Server '${id}' not found` },
+      { status: 404 }
+    );
+  }
+
+  const started = Date.now();
+  try {
+    await MCPServerManager.getInstance(id).executeWithConnection(client => client.ping());
+
+    return NextResponse.json({
+      success: true,
+      latencyMs: Date.now() - started,
+      server: getMCPServerSummary(server)
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        server: getMCPServerSummary(server)
+      },
+      { status: 502 }
+    );
+  }
+}
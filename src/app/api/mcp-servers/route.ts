@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { DynamicDiscovery } from '@/lib/interfaces/DynamicDiscoveryInterface';
+import { getMCPServerSummary } from '@/services/mcp-server';
+import { checkAdminAuthorization } from '@/app/utils/adminAuth';
+import { addMCPServerConfig, getMCPServerConfigs, MCPServerConfigError } from '@/services/mcpServerConfig';
+
+const discovery = new DynamicDiscovery();
+
+// Every configured MCP server with its connection state
+export async function GET() {
+  try {
+    return NextResponse.json({
+      success: true,
+      servers: getMCPServerConfigs().map(getMCPServerSummary)
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Adds a server (admin only) and, if it's enabled, discovers its tools right away. A server that
+// can't be reached is still added; its error shows up in the returned state
+export async function POST(request: Request) {
+  const unauthorized = checkAdminAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const server = addMCPServerConfig(await request.json());
+
+    if (server.enabled) {
+      await discovery.refreshServerTools(server.id).catch(() => undefined);
+    }
+
+    return NextResponse.json(
+      { success: true, server: getMCPServerSummary(server) },
+      { status: 201 }
+    );
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: error instanceof MCPServerConfigError || error instanceof SyntaxError ? 400 : 500 }
+    );
+  }
+}
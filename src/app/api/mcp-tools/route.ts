@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server';
 import { MCPServerManager } from '@/services/mcp-server';
-import { env } from '@/app/config/env';
+import { getMCPServerConfig } from '@/services/mcpServerConfig';
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
@@ -13,17 +13,17 @@ export async function GET(request: Request) {
     );
   }
 
-  // Find the server URL from environment
-  const serverUrl = env.MCP_SERVERS.find(server => server === serverName);
+  // Servers are addressed by their short registry ID
+  const serverConfig = getMCPServerConfig(serverName);
   
-  if (!serverUrl) {
+  if (!serverConfig?.enabled) {
     return NextResponse.json(
-      { success: false, error: `Server '${serverName}' not found` },
+      { success: false, error: serverConfig ? `Server '${serverName}' is disabled` : `Server '${serverName}' not found` },
       { status: 404 }
     );
   }
 
-  const manager = MCPServerManager.getInstance(serverUrl);
+  const manager = MCPServerManager.getInstance(serverConfig.id);
   
   try {
     const tools = await manager.executeWithConnection(async (client) => {
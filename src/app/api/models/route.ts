@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { ProviderFactory } from '@/services/providerFactory';
+import { getModelCatalog } from '@/services/modelCatalog';
+
+// Catalog of providers and models with availability, context size, capabilities and
+// price; ?provider= narrows it to one provider
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const providerName = searchParams.get('provider');
+
+  if (providerName && !ProviderFactory.getProvider(providerName)) {
+    return NextResponse.json(
+      { success: false, error: `Provider ${providerName} not found` },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const providers = await getModelCatalog(providerName ? [providerName] : undefined);
+
+    return NextResponse.json({
+      success: true,
+      providers
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
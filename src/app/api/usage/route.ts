@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { cacheService } from '@/services/cache';
+import { UsageTracker } from '@/services/usageTracker';
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Usage totals for a chat session and/or a day: ?sessionId=...&day=YYYY-MM-DD (UTC, defaults to today)
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const sessionId = searchParams.get('sessionId');
+  const day = searchParams.get('day') || UsageTracker.today();
+
+  if (!DAY_PATTERN.test(day)) {
+    return NextResponse.json(
+      { success: false, error: 'day must be formatted as YYYY-MM-DD' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const [session, daily] = await Promise.all([
+      sessionId ? cacheService.getSessionUsage(sessionId) : Promise.resolve(null),
+      cacheService.getDailyUsage(day)
+    ]);
+    const empty = { calls: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+
+    return NextResponse.json({
+      success: true,
+      ...(sessionId && { session: { sessionId, ...(session || empty) } }),
+      day: { day, ...(daily || empty) }
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
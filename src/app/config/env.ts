@@ -1,15 +1,59 @@
 import dotenv from "dotenv";
-import { z } from "zod";
+import { z } from "zod/v4";
 import { Logger } from "@/app/utils/logger";
 
 const logger = new Logger("Config:Env");
 dotenv.config();
+
 // Schema for environment variables
 const envSchema = z.object({
-  OPENAI_API_KEY: z.string(),
-  ANTHROPIC_API_KEY: z.string(),
-  GOOGLE_API_KEY: z.string(),
+  // Vendor keys are optional; a provider without its key reports itself unavailable
+  OPENAI_API_KEY: z.string().optional(),
+  ANTHROPIC_API_KEY: z.string().optional(),
+  GOOGLE_API_KEY: z.string().optional(),
+  // Override vendor API endpoints to point providers at a proxy or local stand-in
+  OPENAI_BASE_URL: z.string().optional(),
+  ANTHROPIC_BASE_URL: z.string().optional(),
+  GOOGLE_BASE_URL: z.string().optional(),
+  // OpenAI-compatible local server (Ollama, llama.cpp, vLLM), e.g. http://localhost:11434/v1.
+  // Models are discovered from /v1/models unless LOCAL_LLM_MODELS lists them
+  LOCAL_LLM_BASE_URL: z.string().optional(),
+  LOCAL_LLM_API_KEY: z.string().optional(),
+  LOCAL_LLM_MODELS: z.array(z.string()).optional().default([]),
+  LOCAL_LLM_CONTEXT_WINDOW: z.number().int().min(1).optional().default(8192),
+  // JSON fixture of scripted replies for the offline 'mock' provider
+  MOCK_PROVIDER_FIXTURE: z.string().optional(),
+  // Extended thinking budget for Claude models that support it (0 disables thinking)
+  ANTHROPIC_THINKING_BUDGET: z.number().int().min(0).optional().default(0),
+  // Providers tried by "auto" routing and on failover, as provider:model pairs
+  // (e.g. "claude:Claude-Sonnet-4,openai:gpt-4o"); empty means every configured provider
+  PROVIDER_FALLBACK_CHAIN: z.array(z.string()).optional().default([]),
+  // How long a provider/model is passed over after a 429 without a Retry-After header
+  RATE_LIMIT_COOLDOWN_MS: z.number().int().min(0).optional().default(30000),
+  // Limits for the multi-step tool loop in DynamicFlow
+  AGENT_MAX_ITERATIONS: z.number().int().min(1).optional().default(5),
+  AGENT_TOKEN_BUDGET: z.number().int().min(1).optional().default(60000),
+  // Public URL of this app, used for the OAuth callback of protected MCP servers
+  APP_BASE_URL: z.string().url().optional().default("http://localhost:3000"),
+  // JSON or YAML file listing the MCP servers (see mcp-servers.example.yaml); without
+  // it, each MCP_SERVERS URL is used as an HTTP server
+  MCP_SERVERS_CONFIG: z.string().optional(),
   MCP_SERVERS: z.array(z.string()).optional().default(["http://localhost:3001/mcp"]),
+  // Bearer token for adding, changing and removing servers through /api/mcp-servers;
+  // without it the management API is read-only
+  MCP_ADMIN_TOKEN: z.string().optional(),
+  // Lets the management API add stdio servers and change their commands. They run any
+  // command on this host, so by default they can only come from the config file
+  MCP_ALLOW_STDIO_API: z.boolean().optional().default(false),
+  // Crashed stdio servers are restarted with backoff, at most this many times in a row
+  MCP_STDIO_MAX_RESTARTS: z.number().int().min(0).optional().default(5),
+  // Maximum tool calls running at once against a single MCP server
+  MCP_SERVER_CONCURRENCY: z.number().int().min(1).optional().default(4),
+  // Pooled MCP sessions are closed after this long without a call and reopened on demand (0 keeps them open)
+  MCP_SESSION_IDLE_TIMEOUT_MS: z.number().int().min(0).optional().default(300000),
+  // Connection attempts per call before giving up; the delay doubles from the base after each failure
+  MCP_RECONNECT_ATTEMPTS: z.number().int().min(1).optional().default(3),
+  MCP_RECONNECT_BASE_DELAY_MS: z.number().int().min(0).optional().default(500),
   // Cache service configuration
   REDIS_URL: z.string().optional().default("redis://localhost:6379"),
   CHROMA_URL: z.string().optional().default("http://localhost:8000"),
@@ -21,10 +65,32 @@ const validateEnv = () => {
   try {
     logger.info("Validating environment variables");
     const env = {
-      OPENAI_API_KEY: process.env.OPENAI_API_KEY,
-      ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
-      GOOGLE_API_KEY: process.env.GOOGLE_API_KEY,
+      OPENAI_API_KEY: process.env.OPENAI_API_KEY || undefined,
+      ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY || undefined,
+      GOOGLE_API_KEY: process.env.GOOGLE_API_KEY || undefined,
+      OPENAI_BASE_URL: process.env.OPENAI_BASE_URL || undefined,
+      ANTHROPIC_BASE_URL: process.env.ANTHROPIC_BASE_URL || undefined,
+      GOOGLE_BASE_URL: process.env.GOOGLE_BASE_URL || undefined,
+      LOCAL_LLM_BASE_URL: process.env.LOCAL_LLM_BASE_URL || undefined,
+      LOCAL_LLM_API_KEY: process.env.LOCAL_LLM_API_KEY || undefined,
+      LOCAL_LLM_MODELS: process.env.LOCAL_LLM_MODELS?.split(",").map(model => model.trim()).filter(Boolean) || [],
+      LOCAL_LLM_CONTEXT_WINDOW: Number(process.env.LOCAL_LLM_CONTEXT_WINDOW || 8192),
+      MOCK_PROVIDER_FIXTURE: process.env.MOCK_PROVIDER_FIXTURE || undefined,
+      ANTHROPIC_THINKING_BUDGET: Number(process.env.ANTHROPIC_THINKING_BUDGET || 0),
+      PROVIDER_FALLBACK_CHAIN: process.env.PROVIDER_FALLBACK_CHAIN?.split(",").map(entry => entry.trim()).filter(Boolean) || [],
+      RATE_LIMIT_COOLDOWN_MS: Number(process.env.RATE_LIMIT_COOLDOWN_MS || 30000),
+      AGENT_MAX_ITERATIONS: Number(process.env.AGENT_MAX_ITERATIONS || 5),
+      AGENT_TOKEN_BUDGET: Number(process.env.AGENT_TOKEN_BUDGET || 60000),
+      APP_BASE_URL: process.env.APP_BASE_URL || "http://localhost:3000",
+      MCP_SERVERS_CONFIG: process.env.MCP_SERVERS_CONFIG || undefined,
       MCP_SERVERS: process.env.MCP_SERVERS?.split(",") || ["http://localhost:3001/mcp"],
+      MCP_ADMIN_TOKEN: process.env.MCP_ADMIN_TOKEN || undefined,
+      MCP_ALLOW_STDIO_API: process.env.MCP_ALLOW_STDIO_API === "true",
+      MCP_STDIO_MAX_RESTARTS: Number(process.env.MCP_STDIO_MAX_RESTARTS || 5),
+      MCP_SERVER_CONCURRENCY: Number(process.env.MCP_SERVER_CONCURRENCY || 4),
+      MCP_SESSION_IDLE_TIMEOUT_MS: Number(process.env.MCP_SESSION_IDLE_TIMEOUT_MS || 300000),
+      MCP_RECONNECT_ATTEMPTS: Number(process.env.MCP_RECONNECT_ATTEMPTS || 3),
+      MCP_RECONNECT_BASE_DELAY_MS: Number(process.env.MCP_RECONNECT_BASE_DELAY_MS || 500),
       // Cache service configuration
       REDIS_URL: process.env.REDIS_URL || "redis://localhost:6379",
       CHROMA_URL: process.env.CHROMA_URL || "http://localhost:8000",
@@ -37,7 +103,7 @@ const validateEnv = () => {
     return parsed;
   } catch (error) {
     if (error instanceof z.ZodError) {
-      const missingVars = error.errors.map(err => err.path.join("."));
+      const missingVars = error.issues.map(err => err.path.join("."));
       logger.error("Invalid environment variables", { error: { missingVars } });
       throw new Error(
         `❌ Invalid environment variables: ${missingVars.join(
@@ -0,0 +1,31 @@
+import { timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+import { env } from '@/app/config/env';
+
+function tokenMatches(token: string, expected: string): boolean {
+  const given = Buffer.from(token);
+  const wanted = Buffer.from(expected);
+  return given.length === wanted.length && timingSafeEqual(given, wanted);
+}
+
+// Guards the MCP server management endpoints: changes need "Authorization: Bearer
+// <MCP_ADMIN_TOKEN>", and are refused outright when no token is configured.
+// Returns the error response, or null if the request may go ahead
+export function checkAdminAuthorization(request: Request): NextResponse | null {
+  if (!env.MCP_ADMIN_TOKEN) {
+    return NextResponse.json(
+      { success: false, error: 'Server management is disabled. Set MCP_ADMIN_TOKEN to enable it.' },
+      { status: 403 }
+    );
+  }
+
+  const token = request.headers.get('authorization')?.match(/^Bearer (.+)$/i)?.[1];
+  if (!token || !tokenMatches(token, env.MCP_ADMIN_TOKEN)) {
+    return NextResponse.json(
+      { success: false, error: 'A valid admin token is required to manage MCP servers' },
+      { status: 401 }
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,80 @@
+import { ChatContent } from '@/lib/types/chat';
+import { MCPResourceContents } from '@/lib/types/mcp';
+
+// Image formats every vision-capable provider accepts
+export const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+// Anthropic's per-image limit is the strictest of the providers
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const MAX_TEXT_BYTES = 200 * 1024;
+
+// Text files browsers often report without a text/* type
+const TEXT_FILE_PATTERN = /\.(txt|md|markdown|csv|tsv|json|ya?ml|toml|ini|xml|html?|css|log|sql|sh|py|rb|go|rs|java|kt|c|h|cc|cpp|hpp|cs|[cm]?[jt]sx?)$/i;
+
+export interface Attachment {
+  name: string;
+  content: ChatContent;
+}
+
+// Reads a picked, pasted or dropped file into message content: images are sent to the
+// model as vision input, text files are inlined as text marked with the file name
+export async function readAttachment(file: File): Promise<Attachment> {
+  if (IMAGE_TYPES.includes(file.type)) {
+    if (file.size > MAX_IMAGE_BYTES) {
+      throw new Error(`${file.name} is larger than the 5 MB image limit`);
+    }
+    return {
+      name: file.name,
+      content: { type: 'image', content: { base64: await toBase64(file), mimeType: file.type } }
+    };
+  }
+
+  if (file.type.startsWith('text/') || file.type === 'application/json' || TEXT_FILE_PATTERN.test(file.name)) {
+    if (file.size > MAX_TEXT_BYTES) {
+      throw new Error(`${file.name} is larger than the 200 KB text file limit`);
+    }
+    return {
+      name: file.name,
+      content: { type: 'text', content: `Attached file ${file.name}:\n\`\`\`\n${await file.text()}\n\`\`\``, attachment: file.name }
+    };
+  }
+
+  throw new Error(`${file.name} can't be attached. Attach JPEG, PNG, GIF or WebP images, or text files.`);
+}
+
+// Turns MCP resource contents into message content under the same limits as files:
+// text is inlined, images become vision input, other binaries are rejected
+export function resourceAttachment(resource: MCPResourceContents): Attachment {
+  if (resource.text !== undefined) {
+    if (resource.text.length > MAX_TEXT_BYTES) {
+      throw new Error(`${resource.uri} is larger than the 200 KB text file limit`);
+    }
+    return {
+      name: resource.uri,
+      content: { type: 'text', content: `Resource ${resource.uri}:\n\`\`\`\n${resource.text}\n\`\`\``, attachment: resource.uri }
+    };
+  }
+
+  if (resource.blob !== undefined && resource.mimeType && IMAGE_TYPES.includes(resource.mimeType)) {
+    // Base64 takes four characters for every three bytes
+    if (resource.blob.length * 3 / 4 > MAX_IMAGE_BYTES) {
+      throw new Error(`${resource.uri} is larger than the 5 MB image limit`);
+    }
+    return {
+      name: resource.uri,
+      content: { type: 'image', content: { base64: resource.blob, mimeType: resource.mimeType } }
+    };
+  }
+
+  throw new Error(`${resource.uri} (${resource.mimeType || 'binary'}) can't be attached. Only text and JPEG, PNG, GIF or WebP images can.`);
+}
+
+async function toBase64(file: File): Promise<string> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  // Convert in chunks; spreading a large array into fromCharCode overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
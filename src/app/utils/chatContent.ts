@@ -0,0 +1,87 @@
+import { ChatContent, ChatMessage, ChatStreamDelta, ToolCall } from '@/lib/types/chat';
+
+// Merge a streamed delta into the assistant message content
+export function applyDelta(content: ChatContent[], delta: ChatStreamDelta): ChatContent[] {
+  const last = content[content.length - 1];
+
+  switch (delta.type) {
+    case 'text':
+      // Consecutive fragments of the same kind extend the previous block
+      if (last && last.type === delta.type) {
+        return [...content.slice(0, -1), { type: delta.type, content: (last.content as string) + delta.content }];
+      }
+      return [...content, { type: delta.type, content: delta.content as string }];
+
+    case 'thinking': {
+      const replay = {
+        ...(delta.signature && { signature: delta.signature }),
+        ...(delta.redactedThinking && { redactedThinking: delta.redactedThinking })
+      };
+      // A signed or redacted block is complete, so thinking after it starts a new block
+      if (last && last.type === 'thinking' && !last.signature && !last.redactedThinking && !delta.redactedThinking) {
+        return [...content.slice(0, -1), { ...last, content: (last.content as string) + delta.content, ...replay }];
+      }
+      return [...content, { type: 'thinking', content: delta.content as string, ...replay }];
+    }
+
+    case 'tool_start':
+      return [...content, { type: 'tool', content: delta.content as ToolCall }];
+
+    case 'tool_finish': {
+      const toolCall = delta.content as ToolCall;
+      const index = content.findIndex(item => item.type === 'tool' && (item.content as ToolCall).id === toolCall.id);
+      if (index === -1) {
+        return [...content, { type: 'tool', content: toolCall }];
+      }
+      return content.map((item, i) => i === index ? { type: 'tool', content: toolCall } : item);
+    }
+
+    case 'error':
+      return [...content, { type: 'error', content: delta.content as string }];
+
+    default:
+      return content;
+  }
+}
+
+// What the user typed in the most recent user message. Attached files and resources are
+// left out, so their contents can't be mistaken for the request or a stop command
+export function getLatestUserText(messages: ChatMessage[]): string {
+  const lastUserMessage = [...messages].reverse().find(msg => msg.role === 'user');
+  if (!lastUserMessage) return '';
+
+  return lastUserMessage.content
+    .filter(item => item.type === 'text' && !item.attachment)
+    .map(item => item.content as string)
+    .join('\n')
+    .trim();
+}
+
+// Images and attached text of the most recent user message
+export function getLatestUserAttachments(messages: ChatMessage[]): ChatContent[] {
+  const lastUserMessage = [...messages].reverse().find(msg => msg.role === 'user');
+  return lastUserMessage?.content.filter(item => item.type === 'image' || (item.type === 'text' && item.attachment)) || [];
+}
+
+// Images attached to the most recent user message
+export function getLatestUserImages(messages: ChatMessage[]): ChatContent[] {
+  const lastUserMessage = [...messages].reverse().find(msg => msg.role === 'user');
+  return lastUserMessage?.content.filter(item => item.type === 'image') || [];
+}
+
+export function latestUserHasImages(messages: ChatMessage[]): boolean {
+  return getLatestUserImages(messages).length > 0;
+}
+
+// Swaps images for a note, for models without vision that are continuing a conversation
+// in which images were attached earlier
+export function describeImages(messages: ChatMessage[]): ChatMessage[] {
+  return messages.map(msg => msg.content.some(item => item.type === 'image')
+    ? {
+      ...msg,
+      content: msg.content.map(item => item.type === 'image'
+        ? { type: 'text' as const, content: '[An image was attached here, but this model cannot see images]' }
+        : item)
+    }
+    : msg);
+}
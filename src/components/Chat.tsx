@@ -1,18 +1,79 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { useChat } from '@/hooks/useChat';
 import { ContentRenderer } from './ContentRenderer';
+import { GenerationSettings } from './GenerationSettings';
+import { PromptPicker } from './PromptPicker';
+import { ResourcePicker } from './ResourcePicker';
+import { ModelCatalogEntry } from '@/lib/types/chat';
+import { Attachment, IMAGE_TYPES, readAttachment } from '@/app/utils/attachments';
+
+const PROVIDER_LABELS: Record<string, string> = {
+  openai: 'OpenAI',
+  claude: 'Claude',
+  gemini: 'Gemini',
+  local: 'Local (OpenAI-compatible)',
+  mock: 'Mock (Scripted)'
+};
+
+// e.g. "gpt-4o · 128K context · vision, tools · $2.5/$10 per 1M tokens"
+function describeModel(entry: ModelCatalogEntry): string {
+  const capabilities = (['vision', 'tools', 'thinking'] as const).filter(name => entry.capabilities[name]);
+  return [
+    entry.model,
+    `${Math.round(entry.contextWindow / 1000)}K context`,
+    ...(capabilities.length > 0 ? [capabilities.join(', ')] : []),
+    ...(entry.pricing ? [`$${entry.pricing.inputPerMillion}/$${entry.pricing.outputPerMillion} per 1M tokens`] : [])
+  ].join(' · ');
+}
 
 export function Chat() {
-  const { messages, isLoading, error, sendMessage, setProvider, getAvailableModels } = useChat();
+  const {
+    messages,
+    isLoading,
+    error,
+    generationOptions,
+    systemPromptPreset,
+    sendMessage,
+    insertMessages,
+    setProvider,
+    setGenerationOptions,
+    setSystemPromptPreset,
+    getAvailableProviders,
+    getAvailableModels
+  } = useChat();
   const [inputValue, setInputValue] = useState('');
   const [selectedProvider, setSelectedProvider] = useState('');
   const [selectedModel, setSelectedModel] = useState('');
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // The catalog says whether the chosen model can see images; 'auto' routes to one that can
+  const selectedEntry = getAvailableModels(selectedProvider).find(entry => entry.model === selectedModel);
+  const hasImageAttachments = attachments.some(attachment => attachment.content.type === 'image');
+  const visionError = hasImageAttachments && selectedEntry && !selectedEntry.capabilities.vision
+    ? `${selectedEntry.model} does not accept images. Choose a vision-capable model or remove the images.`
+    : null;
+
+  const addFiles = async (files: File[]) => {
+    setAttachmentError(null);
+    for (const file of files) {
+      try {
+        const attachment = await readAttachment(file);
+        setAttachments(prev => [...prev, attachment]);
+      } catch (error) {
+        setAttachmentError(error instanceof Error ? error.message : `Failed to read ${file.name}`);
+      }
+    }
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (inputValue.trim()) {
-      sendMessage(inputValue);
+    if ((inputValue.trim() || attachments.length > 0) && !visionError) {
+      sendMessage(inputValue, attachments.map(attachment => attachment.content));
       setInputValue('');
+      setAttachments([]);
+      setAttachmentError(null);
     }
   };
 
@@ -32,9 +93,11 @@ export function Chat() {
             className="border rounded px-2 py-1"
           >
             <option value="">Select Provider</option>
-            <option value="openai">OpenAI</option>
-            {/* <option value="claude">Claude</option> - Disabled due to token limits */}
-            <option value="gemini">Gemini</option>
+            {getAvailableProviders().map(provider => (
+              <option key={provider.name} value={provider.name}>
+                {PROVIDER_LABELS[provider.name] || provider.name}
+              </option>
+            ))}
             <option value="auto">Auto (Best Available)</option>
           </select>
 
@@ -50,9 +113,9 @@ export function Chat() {
             >
               <option value="">Select Model</option>
               <option value="auto">Auto (Best Model)</option>
-              {getAvailableModels(selectedProvider).map(model => (
-                <option key={model} value={model}>
-                  {model}
+              {getAvailableModels(selectedProvider).map(entry => (
+                <option key={entry.model} value={entry.model}>
+                  {describeModel(entry)}
                 </option>
               ))}
             </select>
@@ -67,6 +130,17 @@ export function Chat() {
             </div>
           )}
         </div>
+        <GenerationSettings
+          options={generationOptions}
+          onOptionsChange={setGenerationOptions}
+          preset={systemPromptPreset}
+          onPresetChange={setSystemPromptPreset}
+        />
+        <PromptPicker disabled={isLoading} onInsert={insertMessages} />
+        <ResourcePicker
+          disabled={isLoading}
+          onAttach={(added) => setAttachments(prev => [...prev, ...added])}
+        />
       </div>
 
       <div className="border rounded-lg h-96 overflow-y-auto p-4 mb-4">
@@ -78,6 +152,12 @@ export function Chat() {
               {message.content.map((content, contentIndex) => (
                 <ContentRenderer key={contentIndex} content={content} />
               ))}
+              {message.usage && message.usage.calls > 0 && (
+                <div className="text-xs text-gray-500 mt-2">
+                  {message.answeredBy && `${message.answeredBy.provider}/${message.answeredBy.model} · `}
+                  {message.usage.inputTokens + message.usage.outputTokens} tokens over {message.usage.calls} calls · ${message.usage.cost.toFixed(4)}
+                </div>
+              )}
             </div>
           </div>
         ))}
@@ -94,18 +174,75 @@ export function Chat() {
         )}
       </div>
 
-      <form onSubmit={handleSubmit} className="flex gap-2">
+      {attachments.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-2">
+          {attachments.map((attachment, index) => (
+            <span key={index} className="text-sm bg-gray-100 border rounded px-2 py-1 flex items-center gap-1">
+              {attachment.content.type === 'image' ? '🖼' : '📄'} {attachment.name}
+              <button
+                type="button"
+                onClick={() => setAttachments(prev => prev.filter((_, i) => i !== index))}
+                className="text-gray-500 hover:text-gray-700"
+                aria-label={`Remove ${attachment.name}`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      {(attachmentError || visionError) && (
+        <div className="text-sm text-red-500 mb-2">{attachmentError || visionError}</div>
+      )}
+
+      <form
+        onSubmit={handleSubmit}
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={(e) => {
+          e.preventDefault();
+          addFiles(Array.from(e.dataTransfer.files));
+        }}
+        className="flex gap-2"
+      >
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={[...IMAGE_TYPES, 'text/*', '.md,.json,.csv,.yaml,.yml,.log,.ts,.tsx,.js,.py'].join(',')}
+          onChange={(e) => {
+            addFiles(Array.from(e.target.files || []));
+            e.target.value = '';
+          }}
+          className="hidden"
+        />
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isLoading}
+          className="border rounded px-3 py-2 hover:bg-gray-100 disabled:opacity-50"
+          title="Attach images or text files"
+        >
+          📎
+        </button>
         <input
           type="text"
           value={inputValue}
           onChange={(e) => setInputValue(e.target.value)}
-          placeholder="Ask me anything or request a tool operation..."
+          onPaste={(e) => {
+            // Pasted images become attachments; pasted text goes into the field as usual
+            const files = Array.from(e.clipboardData.files);
+            if (files.length > 0) {
+              e.preventDefault();
+              addFiles(files);
+            }
+          }}
+          placeholder="Ask me anything, or paste or drop images and files..."
           className="flex-1 border rounded px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
           disabled={isLoading}
         />
         <button 
           type="submit" 
-          disabled={isLoading || !inputValue.trim()}
+          disabled={isLoading || (!inputValue.trim() && attachments.length === 0) || !!visionError}
           className="bg-blue-500 text-white px-4 py-2 rounded hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
         >
           {isLoading ? 'Sending...' : 'Send'}
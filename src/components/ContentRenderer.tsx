@@ -49,6 +49,19 @@ export function ContentRenderer({ content }: ContentRendererProps) {
               </pre>
             </div>
           )}
+          {toolData.status === 'failed' && (
+            <div className="text-sm text-red-700 mt-2">
+              <strong>Failed:</strong> {toolData.error}
+            </div>
+          )}
+          {toolData.status === 'completed' && (
+            <details className="text-sm text-gray-700 mt-2">
+              <summary className="cursor-pointer"><strong>Result</strong></summary>
+              <pre className="bg-white p-2 rounded mt-1 text-xs overflow-auto">
+                {typeof toolData.result === 'string' ? toolData.result : JSON.stringify(toolData.result, null, 2)}
+              </pre>
+            </details>
+          )}
         </div>
       );
 
@@ -56,12 +69,19 @@ export function ContentRenderer({ content }: ContentRendererProps) {
       return (
         <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 my-2">
           <div className="font-semibold text-gray-700">Thinking...</div>
-          <div className="text-sm text-gray-600 mt-1">
-            {JSON.stringify(content.content, null, 2)}
+          <div className="text-sm text-gray-600 mt-1 whitespace-pre-wrap">
+            {content.content as string}
           </div>
         </div>
       );
 
+    case 'error':
+      return (
+        <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 my-2">
+          {content.content as string}
+        </div>
+      );
+
     default:
       return (
         <div className="text-gray-500 italic">
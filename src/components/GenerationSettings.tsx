@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { GenerationOptions, SystemPromptPreset } from '@/lib/types/chat';
+import { useSystemPromptPresets } from '@/hooks/useSystemPromptPresets';
+
+interface GenerationSettingsProps {
+  options: GenerationOptions;
+  onOptionsChange: (options: GenerationOptions) => void;
+  preset: SystemPromptPreset | null;
+  onPresetChange: (preset: SystemPromptPreset | null) => void;
+}
+
+// Empty fields fall back to the provider's defaults
+function parseNumber(value: string): number | undefined {
+  return value.trim() === '' ? undefined : Number(value);
+}
+
+export function GenerationSettings({ options, onOptionsChange, preset, onPresetChange }: GenerationSettingsProps) {
+  const { presets, savePreset, deletePreset } = useSystemPromptPresets();
+  const [presetName, setPresetName] = useState('');
+  const [presetPrompt, setPresetPrompt] = useState('');
+  // Kept as typed so a trailing comma isn't dropped mid-edit
+  const [stopText, setStopText] = useState(options.stopSequences?.join(',') ?? '');
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name || !presetPrompt.trim()) return;
+
+    savePreset(name, presetPrompt);
+    onPresetChange({ name, prompt: presetPrompt });
+    setPresetName('');
+    setPresetPrompt('');
+  };
+
+  return (
+    <details className="mt-2 text-sm">
+      <summary className="cursor-pointer text-gray-600">Generation settings</summary>
+      <div className="mt-2 space-y-2">
+        <div className="flex gap-2">
+          <label className="flex flex-col">
+            Temperature
+            <input
+              type="number"
+              min={0}
+              max={2}
+              step={0.1}
+              value={options.temperature ?? ''}
+              onChange={(e) => onOptionsChange({ ...options, temperature: parseNumber(e.target.value) })}
+              placeholder="default"
+              className="border rounded px-2 py-1 w-24"
+            />
+          </label>
+          <label className="flex flex-col">
+            Max tokens
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={options.maxTokens ?? ''}
+              onChange={(e) => onOptionsChange({ ...options, maxTokens: parseNumber(e.target.value) })}
+              placeholder="model limit"
+              className="border rounded px-2 py-1 w-28"
+            />
+          </label>
+          <label className="flex flex-col flex-1">
+            Stop sequences (comma-separated)
+            <input
+              type="text"
+              value={stopText}
+              onChange={(e) => {
+                setStopText(e.target.value);
+                const stopSequences = e.target.value.split(',').filter(Boolean);
+                onOptionsChange({ ...options, stopSequences: stopSequences.length > 0 ? stopSequences : undefined });
+              }}
+              className="border rounded px-2 py-1"
+            />
+          </label>
+        </div>
+
+        <div className="flex gap-2 items-center">
+          <label>System prompt</label>
+          <select
+            value={preset?.name ?? ''}
+            onChange={(e) => onPresetChange(presets.find(p => p.name === e.target.value) || null)}
+            className="border rounded px-2 py-1"
+          >
+            <option value="">Default assistant</option>
+            {presets.map(p => (
+              <option key={p.name} value={p.name}>{p.name}</option>
+            ))}
+          </select>
+          {preset && (
+            <button
+              type="button"
+              onClick={() => {
+                deletePreset(preset.name);
+                onPresetChange(null);
+              }}
+              className="text-red-500 hover:text-red-700"
+            >
+              Delete preset
+            </button>
+          )}
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <textarea
+            value={presetPrompt}
+            onChange={(e) => setPresetPrompt(e.target.value)}
+            placeholder="New system prompt, e.g. You are a concise code reviewer..."
+            rows={3}
+            className="border rounded px-2 py-1"
+          />
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              placeholder="Preset name"
+              className="border rounded px-2 py-1 flex-1"
+            />
+            <button
+              type="button"
+              onClick={handleSavePreset}
+              disabled={!presetName.trim() || !presetPrompt.trim()}
+              className="border rounded px-3 py-1 hover:bg-gray-100 disabled:opacity-50"
+            >
+              Save and use
+            </button>
+          </div>
+        </div>
+      </div>
+    </details>
+  );
+}
@@ -1,74 +1,326 @@
 'use client';
 
-import { useMCPClient } from '../hooks/useMCPClient';
+import { useEffect, useState } from 'react';
+import { useMCPClient, NewServerInput, ServerDetails } from '../hooks/useMCPClient';
+import { MCPConnectionStatus, MCPResourceContents, MCPServerSummary } from '@/lib/types/mcp';
+import { ResourcePreview } from './ResourcePreview';
 
-export default function MCPClient() {
-  const { tools, resources, loading, error, connected, connect } = useMCPClient();
+const STATUS_STYLES: Record<MCPConnectionStatus, string> = {
+  idle: 'bg-gray-100 text-gray-700',
+  connecting: 'bg-yellow-100 text-yellow-800',
+  connected: 'bg-green-100 text-green-800',
+  unauthorized: 'bg-orange-100 text-orange-800',
+  error: 'bg-red-100 text-red-800'
+};
+
+interface ServerCardProps {
+  server: MCPServerSummary;
+  details?: ServerDetails;
+  loading: boolean;
+  onToggle: () => void;
+  onTest: () => void;
+  onRemove: () => void;
+  onLoadDetails: () => void;
+  onReadResource: (uri: string) => Promise<MCPResourceContents[] | undefined>;
+}
+
+function ServerCard({ server, details, loading, onToggle, onTest, onRemove, onLoadDetails, onReadResource }: ServerCardProps) {
+  const { state } = server;
+  const capabilities = Object.keys(state.capabilities || {});
+  const [preview, setPreview] = useState<{ uri: string; contents: MCPResourceContents[] } | null>(null);
+
+  const togglePreview = async (uri: string) => {
+    if (preview?.uri === uri) {
+      setPreview(null);
+      return;
+    }
+    const contents = await onReadResource(uri);
+    if (contents) {
+      setPreview({ uri, contents });
+    }
+  };
 
   return (
-    <div className="p-6 max-w-4xl mx-auto">
-      <h1 className="text-3xl font-bold mb-6">MCP Client</h1>
-      
-      {!connected ? (
+    <div className={`p-4 border rounded-lg ${server.enabled ? '' : 'opacity-60'}`}>
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <h3 className="font-semibold text-lg">
+            {server.name} <span className="text-sm text-gray-500">({server.id})</span>
+          </h3>
+          <p className="text-sm text-gray-500 break-all">
+            {server.transport === 'http' ? 'HTTP' : 'stdio'} · {server.target}
+          </p>
+        </div>
+        <span className={`px-2 py-1 rounded text-xs font-medium ${STATUS_STYLES[state.status]}`}>
+          {server.enabled ? state.status : 'disabled'}
+        </span>
+      </div>
+
+      {state.serverInfo && (
+        <p className="text-sm text-gray-600 mt-2">
+          {state.serverInfo.name} {state.serverInfo.version}
+          {capabilities.length > 0 && ` · ${capabilities.join(', ')}`}
+        </p>
+      )}
+
+      {state.authorizationUrl && (
+        <a href={state.authorizationUrl} className="inline-block mt-2 text-sm text-blue-600 hover:underline">
+          Authorize access to {server.name} →
+        </a>
+      )}
+
+      {state.lastError && (
+        <p className="text-sm text-red-600 mt-2">
+          <strong>Last error:</strong> {state.lastError}
+        </p>
+      )}
+
+      <div className="flex gap-2 mt-3 text-sm">
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={server.enabled} onChange={onToggle} disabled={loading} />
+          Enabled
+        </label>
+        <button onClick={onTest} disabled={loading} className="border rounded px-3 py-1 hover:bg-gray-100 disabled:opacity-50">
+          Test connection
+        </button>
+        <button onClick={onLoadDetails} disabled={loading || !server.enabled} className="border rounded px-3 py-1 hover:bg-gray-100 disabled:opacity-50">
+          {details ? 'Reload tools' : 'Show tools'}
+        </button>
+        <button onClick={onRemove} disabled={loading} className="text-red-500 hover:text-red-700 ml-auto disabled:opacity-50">
+          Remove
+        </button>
+      </div>
+
+      {details && (
+        <div className="mt-3 grid gap-2">
+          <h4 className="font-semibold">Tools ({details.tools.length})</h4>
+          {details.tools.map(tool => (
+            <details key={tool.name} className="text-sm">
+              <summary className="cursor-pointer">
+                <strong>{tool.name}</strong> <span className="text-gray-600">{tool.description}</span>
+              </summary>
+              <pre className="mt-2 text-xs bg-gray-100 p-2 rounded overflow-auto text-gray-900">
+                {JSON.stringify(tool.inputSchema, null, 2)}
+              </pre>
+            </details>
+          ))}
+          <h4 className="font-semibold">Resources ({details.resources.length})</h4>
+          {details.resources.map(resource => (
+            <div key={resource.uri} className="text-sm">
+              <p className="flex items-center gap-2">
+                <span className="flex-1">
+                  <strong>{resource.name}</strong> <span className="text-gray-500 break-all">{resource.uri}</span>
+                </span>
+                <button
+                  onClick={() => togglePreview(resource.uri)}
+                  disabled={loading}
+                  className="border rounded px-2 py-0.5 hover:bg-gray-100 disabled:opacity-50"
+                >
+                  {preview?.uri === resource.uri ? 'Hide' : 'Preview'}
+                </button>
+              </p>
+              {preview?.uri === resource.uri && (
+                <div className="mt-1">
+                  <ResourcePreview contents={preview.contents} />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function AddServerForm({ loading, onAdd }: { loading: boolean; onAdd: (input: NewServerInput) => Promise<unknown> }) {
+  const [id, setId] = useState('');
+  const [name, setName] = useState('');
+  const [transport, setTransport] = useState<'http' | 'stdio'>('http');
+  const [target, setTarget] = useState('');
+  const [bearerToken, setBearerToken] = useState('');
+  const [useOAuth, setUseOAuth] = useState(false);
+  const [timeoutMs, setTimeoutMs] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Stdio commands are split on whitespace into the executable and its arguments
+    const [command, ...args] = target.trim().split(/\s+/);
+    const added = await onAdd({
+      id: id.trim(),
+      ...(name.trim() && { name: name.trim() }),
+      transport,
+      ...(transport === 'http'
+        ? { url: target.trim(), ...(bearerToken && { bearerToken }), ...(useOAuth && { oauth: {} }) }
+        : { command, args }),
+      ...(timeoutMs && { timeoutMs: Number(timeoutMs) })
+    });
+
+    if (added) {
+      setId('');
+      setName('');
+      setTarget('');
+      setBearerToken('');
+      setUseOAuth(false);
+      setTimeoutMs('');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="p-4 border rounded-lg grid gap-2 text-sm">
+      <h3 className="font-semibold text-lg">Add server</h3>
+      <div className="flex gap-2">
+        <input value={id} onChange={(e) => setId(e.target.value)} placeholder="ID, e.g. files" className="border rounded px-2 py-1 w-40" />
+        <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Display name" className="border rounded px-2 py-1 flex-1" />
+        <select value={transport} onChange={(e) => setTransport(e.target.value as 'http' | 'stdio')} className="border rounded px-2 py-1">
+          <option value="http">HTTP</option>
+          <option value="stdio">stdio</option>
+        </select>
+      </div>
+      <input
+        value={target}
+        onChange={(e) => setTarget(e.target.value)}
+        placeholder={transport === 'http' ? 'https://example.com/mcp' : 'npx -y @modelcontextprotocol/server-filesystem ./workspace'}
+        className="border rounded px-2 py-1"
+      />
+      <div className="flex gap-2">
+        {transport === 'http' && (
+          <input
+            type="password"
+            value={bearerToken}
+            onChange={(e) => setBearerToken(e.target.value)}
+            placeholder="Bearer token (optional)"
+            disabled={useOAuth}
+            className="border rounded px-2 py-1 flex-1"
+          />
+        )}
+        {transport === 'http' && (
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={useOAuth} onChange={(e) => setUseOAuth(e.target.checked)} />
+            OAuth
+          </label>
+        )}
+        <input
+          type="number"
+          min={1}
+          value={timeoutMs}
+          onChange={(e) => setTimeoutMs(e.target.value)}
+          placeholder="Timeout (ms)"
+          className="border rounded px-2 py-1 w-36"
+        />
         <button
-          onClick={connect}
-          disabled={loading}
-          className="bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded disabled:opacity-50"
+          type="submit"
+          disabled={loading || !id.trim() || !target.trim()}
+          className="bg-blue-500 hover:bg-blue-700 text-white font-bold py-1 px-4 rounded disabled:opacity-50"
         >
-          {loading ? 'Connecting...' : 'Connect to MCP Server'}
+          Add
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default function MCPClient() {
+  const {
+    servers,
+    details,
+    loading,
+    error,
+    adminToken,
+    setAdminToken,
+    loadServers,
+    addServer,
+    updateServer,
+    removeServer,
+    testServer,
+    loadServerDetails,
+    readResource
+  } = useMCPClient();
+  const [latencies, setLatencies] = useState<Record<string, number>>({});
+  const [authResult, setAuthResult] = useState<{ ok: boolean; message: string } | null>(null);
+
+  // The OAuth callback route sends the user back here with the outcome in the query string
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const authorized = params.get('mcp_authorized');
+    const authError = params.get('mcp_auth_error');
+    if (!authorized && !authError) return;
+
+    setAuthResult(authorized
+      ? { ok: true, message: `Authorized MCP server "${authorized}"` }
+      : { ok: false, message: `Authorization failed: ${authError}` });
+    window.history.replaceState(null, '', window.location.pathname);
+  }, []);
+
+  const handleTest = async (id: string) => {
+    const latencyMs = await testServer(id);
+    if (latencyMs !== undefined) {
+      setLatencies(prev => ({ ...prev, [id]: latencyMs }));
+    }
+  };
+
+  return (
+    <div className="p-6 max-w-4xl mx-auto">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-3xl font-bold">MCP Servers</h1>
+        <button onClick={loadServers} disabled={loading} className="border rounded px-3 py-1 hover:bg-gray-100 disabled:opacity-50">
+          {loading ? 'Working...' : 'Refresh'}
         </button>
-      ) : (
-        <div className="mb-4 p-4 bg-green-100 border border-green-400 text-green-700 rounded">
-          <strong>✅ Connected Successfully!</strong>
-          <br />
-          Found {tools.length} tools and {resources.length} resources
+      </div>
+
+      {authResult && (
+        <div className={`mb-4 p-4 border rounded ${authResult.ok
+          ? 'bg-green-100 border-green-400 text-green-700'
+          : 'bg-red-100 border-red-400 text-red-700'}`}>
+          {authResult.message}
         </div>
       )}
 
       {error && (
-        <div className="mt-4 p-4 bg-red-100 border border-red-400 text-red-700 rounded">
+        <div className="mb-4 p-4 bg-red-100 border border-red-400 text-red-700 rounded">
           <strong>Error:</strong> {error}
         </div>
       )}
 
-      {connected && (
-        <div className="mt-6">
-          {/* Tools Section */}
-          <div className="mb-6">
-            <h2 className="text-2xl font-semibold mb-4">Available Tools</h2>
-            <div className="grid gap-4">
-              {tools.map((tool, index) => (
-                <div key={tool.name} className="p-4 border rounded-lg">
-                  <h3 className="font-semibold text-lg">{index + 1}. {tool.name}</h3>
-                  <p className="text-gray-600 mt-2">{tool.description}</p>
-                  <details className="mt-2">
-                    <summary className="cursor-pointer text-sm text-blue-600">
-                      View Input Schema
-                    </summary>
-                    <pre className="mt-2 text-xs bg-gray-100 p-2 rounded overflow-auto text-gray-900">
-                      {JSON.stringify(tool.inputSchema, null, 2)}
-                    </pre>
-                  </details>
-                </div>
-              ))}
-            </div>
+      <div className="grid gap-4">
+        {servers.length === 0 && !loading && (
+          <p className="text-gray-600">No MCP servers configured.</p>
+        )}
+        {servers.map(server => (
+          <div key={server.id}>
+            <ServerCard
+              server={server}
+              details={details[server.id]}
+              loading={loading}
+              onToggle={() => updateServer(server.id, { enabled: !server.enabled })}
+              onTest={() => handleTest(server.id)}
+              onRemove={() => {
+                if (confirm(`Remove MCP server "${server.name}"?`)) {
+                  removeServer(server.id);
+                }
+              }}
+              onLoadDetails={() => loadServerDetails(server.id)}
+              onReadResource={(uri) => readResource(server.id, uri)}
+            />
+            {latencies[server.id] !== undefined && server.state.status === 'connected' && (
+              <p className="text-xs text-gray-500 mt-1">Responded in {latencies[server.id]}ms</p>
+            )}
           </div>
+        ))}
 
-          {/* Resources Section */}
-          <div>
-            <h2 className="text-2xl font-semibold mb-4">Available Resources</h2>
-            <div className="grid gap-4">
-              {resources.map((resource, index) => (
-                <div key={resource.name} className="p-4 border rounded-lg">
-                  <h3 className="font-semibold text-lg">{index + 1}. {resource.name}</h3>
-                  <p className="text-gray-600 mt-2">{resource.description}</p>
-                  <p className="text-sm text-gray-500 mt-1">URI: {resource.uri}</p>
-                </div>
-              ))}
-            </div>
-          </div>
-        </div>
-      )}
+        <AddServerForm loading={loading} onAdd={addServer} />
+
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          Admin token
+          <input
+            type="password"
+            value={adminToken}
+            onChange={(e) => setAdminToken(e.target.value)}
+            placeholder="MCP_ADMIN_TOKEN, needed to add, change or remove servers"
+            className="border rounded px-2 py-1 flex-1"
+          />
+        </label>
+      </div>
     </div>
   );
-}
\ No newline at end of file
+}
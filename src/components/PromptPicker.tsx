@@ -0,0 +1,122 @@
+import { useEffect, useState } from 'react';
+import { ChatMessage } from '@/lib/types/chat';
+import { MCPPromptSummary } from '@/lib/types/mcp';
+
+interface PromptPickerProps {
+  disabled: boolean;
+  onInsert: (messages: ChatMessage[]) => Promise<void>;
+}
+
+const promptKey = (prompt: MCPPromptSummary) => `${prompt.server}/${prompt.name}`;
+
+export function PromptPicker({ disabled, onInsert }: PromptPickerProps) {
+  const [prompts, setPrompts] = useState<MCPPromptSummary[]>([]);
+  const [selectedKey, setSelectedKey] = useState('');
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/mcp-prompts')
+      .then(response => response.json())
+      .then(data => {
+        if (!data.success) throw new Error(data.error || 'Failed to list prompts');
+        setPrompts(data.prompts);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to list prompts'));
+  }, []);
+
+  const selected = prompts.find(prompt => promptKey(prompt) === selectedKey);
+  const missingRequired = selected?.arguments.some(arg => arg.required && !values[arg.name]?.trim());
+
+  const handleInsert = async () => {
+    if (!selected) return;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/mcp-prompts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          server: selected.server,
+          name: selected.name,
+          // Optional arguments left blank are omitted so the server applies its defaults
+          arguments: Object.fromEntries(Object.entries(values).filter(([, value]) => value.trim()))
+        })
+      });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to get prompt');
+      }
+
+      const messages: ChatMessage[] = data.messages.map((message: ChatMessage) => ({
+        ...message,
+        timestamp: new Date(message.timestamp)
+      }));
+      setSelectedKey('');
+      setValues({});
+      await onInsert(messages);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to get prompt');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (prompts.length === 0 && !error) return null;
+
+  return (
+    <details className="mt-2 text-sm">
+      <summary className="cursor-pointer text-gray-600">MCP prompts ({prompts.length})</summary>
+      <div className="mt-2 space-y-2">
+        <select
+          value={selectedKey}
+          onChange={(e) => {
+            setSelectedKey(e.target.value);
+            setValues({});
+          }}
+          className="border rounded px-2 py-1 w-full"
+        >
+          <option value="">Choose a prompt</option>
+          {prompts.map(prompt => (
+            <option key={promptKey(prompt)} value={promptKey(prompt)}>
+              {prompt.server} / {prompt.title || prompt.name}
+            </option>
+          ))}
+        </select>
+
+        {selected?.description && <p className="text-gray-600">{selected.description}</p>}
+
+        {selected?.arguments.map(arg => (
+          <label key={arg.name} className="flex flex-col">
+            <span>
+              {arg.name}
+              {arg.required && <span className="text-red-500"> *</span>}
+              {arg.description && <span className="text-gray-500"> · {arg.description}</span>}
+            </span>
+            <input
+              type="text"
+              value={values[arg.name] ?? ''}
+              onChange={(e) => setValues(prev => ({ ...prev, [arg.name]: e.target.value }))}
+              className="border rounded px-2 py-1"
+            />
+          </label>
+        ))}
+
+        {selected && (
+          <button
+            type="button"
+            onClick={handleInsert}
+            disabled={disabled || loading || missingRequired}
+            className="border rounded px-3 py-1 hover:bg-gray-100 disabled:opacity-50"
+          >
+            {loading ? 'Loading prompt...' : 'Insert into chat'}
+          </button>
+        )}
+
+        {error && <p className="text-red-600">{error}</p>}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,122 @@
+import { useEffect, useState } from 'react';
+import { MCPResourceContents, MCPResourceSummary } from '@/lib/types/mcp';
+import { Attachment, resourceAttachment } from '@/app/utils/attachments';
+import { ResourcePreview } from './ResourcePreview';
+
+interface ResourcePickerProps {
+  disabled: boolean;
+  onAttach: (attachments: Attachment[]) => void;
+}
+
+const resourceKey = (resource: MCPResourceSummary) => `${resource.server} ${resource.uri}`;
+
+export function ResourcePicker({ disabled, onAttach }: ResourcePickerProps) {
+  const [resources, setResources] = useState<MCPResourceSummary[]>([]);
+  const [selectedKey, setSelectedKey] = useState('');
+  const [contents, setContents] = useState<MCPResourceContents[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/mcp-resources')
+      .then(response => response.json())
+      .then(data => {
+        if (!data.success) throw new Error(data.error || 'Failed to list resources');
+        setResources(data.resources);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to list resources'));
+  }, []);
+
+  const selected = resources.find(resource => resourceKey(resource) === selectedKey);
+
+  const readSelected = async (): Promise<MCPResourceContents[]> => {
+    if (contents) return contents;
+
+    const query = `server=${encodeURIComponent(selected!.server)}&uri=${encodeURIComponent(selected!.uri)}`;
+    const data = await fetch(`/api/mcp-read-resource?${query}`).then(response => response.json());
+    if (!data.success) {
+      throw new Error(data.error || `Failed to read ${selected!.uri}`);
+    }
+    setContents(data.contents);
+    return data.contents;
+  };
+
+  // Runs a read with shared loading and error handling
+  const run = async (action: () => Promise<void>) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read resource');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAttach = () => run(async () => {
+    const attachments = (await readSelected()).map(resourceAttachment);
+    onAttach(attachments);
+    setSelectedKey('');
+    setContents(null);
+  });
+
+  if (resources.length === 0 && !error) return null;
+
+  return (
+    <details className="mt-2 text-sm">
+      <summary className="cursor-pointer text-gray-600">MCP resources ({resources.length})</summary>
+      <div className="mt-2 space-y-2">
+        <select
+          value={selectedKey}
+          onChange={(e) => {
+            setSelectedKey(e.target.value);
+            setContents(null);
+          }}
+          className="border rounded px-2 py-1 w-full"
+        >
+          <option value="">Choose a resource</option>
+          {resources.map(resource => (
+            <option key={resourceKey(resource)} value={resourceKey(resource)}>
+              {resource.server} / {resource.title || resource.name}
+            </option>
+          ))}
+        </select>
+
+        {selected && (
+          <p className="text-gray-600 break-all">
+            {selected.uri}
+            {selected.mimeType && ` · ${selected.mimeType}`}
+            {selected.description && ` · ${selected.description}`}
+          </p>
+        )}
+
+        {selected && (
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => run(async () => { await readSelected(); })}
+              disabled={loading || !!contents}
+              className="border rounded px-3 py-1 hover:bg-gray-100 disabled:opacity-50"
+            >
+              Preview
+            </button>
+            <button
+              type="button"
+              onClick={handleAttach}
+              disabled={disabled || loading}
+              className="border rounded px-3 py-1 hover:bg-gray-100 disabled:opacity-50"
+            >
+              {loading ? 'Reading...' : 'Attach to next message'}
+            </button>
+          </div>
+        )}
+
+        {contents && <ResourcePreview contents={contents} />}
+
+        {error && <p className="text-red-600">{error}</p>}
+      </div>
+    </details>
+  );
+}
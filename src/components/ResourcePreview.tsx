@@ -0,0 +1,42 @@
+import Image from 'next/image';
+import { MCPResourceContents } from '@/lib/types/mcp';
+
+// Long text resources are cut short here; attaching sends them whole
+const PREVIEW_CHARS = 2000;
+
+export function ResourcePreview({ contents }: { contents: MCPResourceContents[] }) {
+  if (contents.length === 0) {
+    return <p className="text-sm text-gray-500 italic">Resource is empty</p>;
+  }
+
+  return (
+    <div className="grid gap-2">
+      {contents.map((part, index) => (
+        <div key={index} className="text-sm">
+          {contents.length > 1 && (
+            <p className="text-gray-500 break-all">{part.uri}</p>
+          )}
+          {part.text !== undefined ? (
+            <pre className="text-xs bg-gray-100 p-2 rounded overflow-auto max-h-64 text-gray-900 whitespace-pre-wrap">
+              {part.text.length > PREVIEW_CHARS ? `${part.text.slice(0, PREVIEW_CHARS)}\n…` : part.text}
+            </pre>
+          ) : part.blob !== undefined && part.mimeType?.startsWith('image/') ? (
+            // Data URLs can't go through the image optimizer, and their size is only known once loaded
+            <Image
+              src={`data:${part.mimeType};base64,${part.blob}`}
+              alt={part.uri}
+              width={0}
+              height={0}
+              unoptimized
+              className="w-auto max-w-full max-h-64 h-auto rounded"
+            />
+          ) : (
+            <p className="text-gray-500 italic">
+              {part.mimeType || 'Binary'} content, {Math.round((part.blob?.length ?? 0) * 3 / 4)} bytes
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
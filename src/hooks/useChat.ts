@@ -1,5 +1,15 @@
-import { useState, useCallback } from 'react';
-import { ChatMessage, ChatState, ChatContent } from '@/lib/types/chat';
+import { useState, useCallback, useEffect } from 'react';
+import {
+  ChatMessage,
+  ChatState,
+  ChatContent,
+  ChatStreamDelta,
+  GenerationOptions,
+  ProviderCatalogEntry,
+  SystemPromptPreset
+} from '@/lib/types/chat';
+import { readServerSentEvents } from '@/app/utils/sse';
+import { applyDelta } from '@/app/utils/chatContent';
 
 export function useChat() {
   const [chatState, setChatState] = useState<ChatState>({
@@ -10,28 +20,24 @@ export function useChat() {
     error: null
   });
 
-  const [providerIndex, setProviderIndex] = useState(0);
-  const availableProviders = ['openai',  'gemini']; // 'claude',
+  // Identifies this chat in the server's usage totals
+  const [sessionId] = useState(() => crypto.randomUUID());
+  // Providers and models the server reports, with their capabilities and prices
+  const [catalog, setCatalog] = useState<ProviderCatalogEntry[]>([]);
+  // Sampling settings sent with every message of this conversation
+  const [generationOptions, setGenerationOptions] = useState<GenerationOptions>({});
+  // System prompt preset attached to this conversation, replacing the default persona
+  const [systemPromptPreset, setSystemPromptPreset] = useState<SystemPromptPreset | null>(null);
 
-  const getNextProvider = useCallback(() => {
-    const nextIndex = (providerIndex + 1) % availableProviders.length;
-    setProviderIndex(nextIndex);
-    return availableProviders[nextIndex];
-  }, [providerIndex]);
-
-  const sendMessage = useCallback(async (content: string) => {
+  // Sends the conversation and streams the assistant's reply onto the end of it
+  const requestReply = useCallback(async (history: ChatMessage[]) => {
     let selectedProvider = chatState.currentProvider;
     let selectedModel = chatState.currentModel;
 
-    // Auto mode logic
-    // TODO: update this to be more robust and handle:
-    // 1. Success rate (avoid failing providers)
-    // 2. Response time (prefer faster ones)
-    // 3. Cost (prefer cheaper ones)
-    // 4. Rate limits (avoid overused ones)
+    // The server routes 'auto' to the healthiest provider and fails over when one is down
     if (!selectedProvider || selectedProvider === 'auto') {
-      selectedProvider = getNextProvider();
-      selectedModel = 'default';
+      selectedProvider = 'auto';
+      selectedModel = 'auto';
     }
 
     if (!selectedProvider || !selectedModel) {
@@ -39,18 +45,9 @@ export function useChat() {
       return;
     }
 
-    const userMessage: ChatMessage = {
-      role: 'user',
-      content: [{
-        type: 'text',
-        content
-      }],
-      timestamp: new Date()
-    };
-
     setChatState(prev => ({
       ...prev,
-      messages: [...prev.messages, userMessage],
+      messages: history,
       isLoading: true,
       error: null
     }));
@@ -62,27 +59,53 @@ export function useChat() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          messages: [...chatState.messages, userMessage],
+          messages: history,
           provider: selectedProvider,
-          model: selectedModel
+          model: selectedModel,
+          stream: true,
+          sessionId,
+          generation: {
+            ...generationOptions,
+            ...(systemPromptPreset && { systemPrompt: systemPromptPreset.prompt })
+          }
         })
       });
 
-      const data = await response.json();
-      
-      if (!data.success) {
+      if (!response.ok) {
+        const data = await response.json();
         throw new Error(data.error || 'Failed to get response');
       }
 
+      // Add an empty assistant message and grow it as deltas arrive
       const assistantMessage: ChatMessage = {
         role: 'assistant',
-        content: data.content,
+        content: [],
         timestamp: new Date()
       };
 
       setChatState(prev => ({
         ...prev,
-        messages: [...prev.messages, assistantMessage],
+        messages: [...prev.messages, assistantMessage]
+      }));
+
+      for await (const { event, data } of readServerSentEvents(response)) {
+        if (event === 'error') {
+          throw new Error((data as { error?: string }).error || 'Failed to get response');
+        }
+        if (event !== 'delta' && event !== 'done') continue;
+
+        setChatState(prev => {
+          const messages = [...prev.messages];
+          const last = messages[messages.length - 1];
+          messages[messages.length - 1] = event === 'delta'
+            ? { ...last, content: applyDelta(last.content, data as ChatStreamDelta) }
+            : { ...last, ...(data as Pick<ChatMessage, 'usage' | 'answeredBy'>) };
+          return { ...prev, messages };
+        });
+      }
+
+      setChatState(prev => ({
+        ...prev,
         isLoading: false
       }));
     } catch (error) {
@@ -93,7 +116,33 @@ export function useChat() {
         isLoading: false
       }));
     }
-  }, [chatState.currentProvider, chatState.currentModel]);
+  }, [chatState.currentProvider, chatState.currentModel, sessionId, generationOptions, systemPromptPreset]);
+
+  // attachments are images and text files added to the message alongside the typed text
+  const sendMessage = useCallback(async (content: string, attachments: ChatContent[] = []) => {
+    const userMessage: ChatMessage = {
+      role: 'user',
+      content: [
+        ...(content.trim() ? [{ type: 'text' as const, content }] : []),
+        ...attachments
+      ],
+      timestamp: new Date()
+    };
+
+    await requestReply([...chatState.messages, userMessage]);
+  }, [chatState.messages, requestReply]);
+
+  // Adds messages from an MCP prompt. A prompt ending on the user's turn is answered right
+  // away, like a typed message; otherwise the messages wait for the user's next message
+  const insertMessages = useCallback(async (messages: ChatMessage[]) => {
+    const history = [...chatState.messages, ...messages];
+
+    if (messages[messages.length - 1]?.role === 'user') {
+      await requestReply(history);
+    } else {
+      setChatState(prev => ({ ...prev, messages: history }));
+    }
+  }, [chatState.messages, requestReply]);
 
   const setProvider = useCallback((provider: string, model: string) => {
     setChatState(prev => ({
@@ -103,20 +152,43 @@ export function useChat() {
     }));
   }, []);
 
-  const getAvailableModels = useCallback((provider: string) => {
-    // Hardcoded models for now - could be fetched from API if needed
-    const modelMap: Record<string, string[]> = {
-      openai: ['gpt-3.5-turbo', 'gpt-3.5-turbo-16k', 'gpt-4o', 'gpt-4o-mini'],
-      claude: ['Claude-Haiku-3', 'Claude-Haiku-3-5', 'Claude-Sonnet-4', 'Claude-Sonnet-3-7', 'Claude-Opus-4'],
-      gemini: ['gemini-2.5-flash', 'gemini-2.5-flash-lite', 'gemini-2.5-Pro']
-    };
-    return modelMap[provider] || [];
+  const loadCatalog = useCallback(async () => {
+    try {
+      const response = await fetch('/api/models');
+      const data = await response.json();
+      if (data.success) {
+        setCatalog(data.providers);
+      }
+    } catch (error) {
+      console.error('Failed to load model catalog:', error);
+    }
   }, []);
 
+  useEffect(() => {
+    loadCatalog();
+  }, [loadCatalog]);
+
+  // Providers the server can't serve (e.g. missing API key) are left out
+  const getAvailableProviders = useCallback(() => {
+    return catalog.filter(provider => provider.available);
+  }, [catalog]);
+
+  const getAvailableModels = useCallback((provider: string) => {
+    return catalog.find(entry => entry.name === provider && entry.available)?.models || [];
+  }, [catalog]);
+
   return {
     ...chatState,
+    sessionId,
+    generationOptions,
+    systemPromptPreset,
     sendMessage,
+    insertMessages,
+    setGenerationOptions,
+    setSystemPromptPreset,
     setProvider,
+    loadCatalog,
+    getAvailableProviders,
     getAvailableModels
   };
 }
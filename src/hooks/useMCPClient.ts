@@ -1,4 +1,5 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { MCPResourceContents, MCPServerSummary } from '@/lib/types/mcp';
 
 interface Tool {
   name: string;
@@ -19,53 +20,170 @@ interface MCPResponse {
   error?: string;
 }
 
+interface ServerResponse {
+  success: boolean;
+  server?: MCPServerSummary;
+  servers?: MCPServerSummary[];
+  latencyMs?: number;
+  error?: string;
+}
+
+export interface ServerDetails {
+  tools: Tool[];
+  resources: Resource[];
+}
+
+const ADMIN_TOKEN_KEY = 'mcp:adminToken';
+
+// Settings for a new server, in the shape of an entry in the MCP servers config file
+export type NewServerInput = Record<string, unknown>;
+
+async function requestServer(url: string, init?: RequestInit): Promise<ServerResponse> {
+  const response = await fetch(url, init);
+  const data: ServerResponse = await response.json();
+  // A failed connection test still reports the server's updated state
+  if (!data.success && !data.server) {
+    throw new Error(data.error || 'Request failed');
+  }
+  return data;
+}
+
+function omit<T>(record: Record<string, T>, key: string): Record<string, T> {
+  const copy = { ...record };
+  delete copy[key];
+  return copy;
+}
+
 export function useMCPClient() {
-  const [tools, setTools] = useState<Tool[]>([]);
-  const [resources, setResources] = useState<Resource[]>([]);
+  const [servers, setServers] = useState<MCPServerSummary[]>([]);
+  const [details, setDetails] = useState<Record<string, ServerDetails>>({});
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [connected, setConnected] = useState(false);
+  // MCP_ADMIN_TOKEN, needed to change servers. Kept for the browser session only
+  const [adminToken, setAdminTokenState] = useState('');
+
+  // sessionStorage only exists in the browser, so load after mounting
+  useEffect(() => {
+    setAdminTokenState(sessionStorage.getItem(ADMIN_TOKEN_KEY) || '');
+  }, []);
+
+  const setAdminToken = useCallback((token: string) => {
+    sessionStorage.setItem(ADMIN_TOKEN_KEY, token);
+    setAdminTokenState(token);
+  }, []);
+
+  const adminHeaders = useMemo((): Record<string, string> =>
+    adminToken ? { Authorization: `Bearer ${adminToken}` } : {},
+  [adminToken]);
 
-  const connect = useCallback(async () => {
+  const replaceServer = useCallback((server: MCPServerSummary) => {
+    setServers(prev => prev.some(s => s.id === server.id)
+      ? prev.map(s => s.id === server.id ? server : s)
+      : [...prev, server]);
+  }, []);
+
+  // Runs a management call with shared loading and error handling
+  const run = useCallback(async <T,>(action: () => Promise<T>): Promise<T | undefined> => {
     setLoading(true);
     setError(null);
-    
+
     try {
-      // Get tools
-      const toolsResponse = await fetch('/api/mcp-tools');
-      const toolsData: MCPResponse = await toolsResponse.json();
-      
-      // Get resources
-      const resourcesResponse = await fetch('/api/mcp-resources');
-      const resourcesData: MCPResponse = await resourcesResponse.json();
-      
-      if (toolsData.success && resourcesData.success) {
-        setTools(toolsData.tools || []);
-        setResources(resourcesData.resources || []);
-        setConnected(true);
-      } else {
-        throw new Error(toolsData.error || resourcesData.error || 'Failed to connect');
-      }
+      return await action();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Unknown error');
+      return undefined;
     } finally {
       setLoading(false);
     }
   }, []);
 
-  const callTool = useCallback(async (toolName: string, args: any) => {
+  const loadServers = useCallback(() => run(async () => {
+    const data = await requestServer('/api/mcp-servers');
+    setServers(data.servers || []);
+  }), [run]);
+
+  useEffect(() => {
+    loadServers();
+  }, [loadServers]);
+
+  const addServer = useCallback((input: NewServerInput) => run(async () => {
+    const data = await requestServer('/api/mcp-servers', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...adminHeaders },
+      body: JSON.stringify(input)
+    });
+    replaceServer(data.server!);
+    return data.server;
+  }), [run, replaceServer, adminHeaders]);
+
+  const updateServer = useCallback((id: string, changes: Record<string, unknown>) => run(async () => {
+    const data = await requestServer(`/api/mcp-servers/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json', ...adminHeaders },
+      body: JSON.stringify(changes)
+    });
+    replaceServer(data.server!);
+    // Tools may have changed with the settings
+    setDetails(prev => omit(prev, id));
+  }), [run, replaceServer, adminHeaders]);
+
+  const removeServer = useCallback((id: string) => run(async () => {
+    await requestServer(`/api/mcp-servers/${encodeURIComponent(id)}`, { method: 'DELETE', headers: adminHeaders });
+    setServers(prev => prev.filter(s => s.id !== id));
+    setDetails(prev => omit(prev, id));
+  }), [run, adminHeaders]);
+
+  // Resolves to the round-trip time, or undefined if the server couldn't be reached
+  const testServer = useCallback((id: string) => run(async () => {
+    const data = await requestServer(`/api/mcp-servers/${encodeURIComponent(id)}/test`, { method: 'POST' });
+    replaceServer(data.server!);
+    if (!data.success) {
+      throw new Error(data.error || `Server '${id}' did not respond`);
+    }
+    return data.latencyMs;
+  }), [run, replaceServer]);
+
+  const loadServerDetails = useCallback((id: string) => run(async () => {
+    const query = `server=${encodeURIComponent(id)}`;
+    const [toolsData, resourcesData]: MCPResponse[] = await Promise.all([
+      fetch(`/api/mcp-tools?${query}`).then(response => response.json()),
+      fetch(`/api/mcp-resources?${query}`).then(response => response.json())
+    ]);
+
+    if (!toolsData.success) {
+      throw new Error(toolsData.error || 'Failed to list tools');
+    }
+
+    // Servers without the resources capability reject the listing; show their tools anyway
+    setDetails(prev => ({
+      ...prev,
+      [id]: { tools: toolsData.tools || [], resources: resourcesData.resources || [] }
+    }));
+  }), [run]);
+
+  const readResource = useCallback((server: string, uri: string) => run(async () => {
+    const query = `server=${encodeURIComponent(server)}&uri=${encodeURIComponent(uri)}`;
+    const data = await fetch(`/api/mcp-read-resource?${query}`).then(response => response.json());
+
+    if (!data.success) {
+      throw new Error(data.error || `Failed to read ${uri}`);
+    }
+    return data.contents as MCPResourceContents[];
+  }), [run]);
+
+  const callTool = useCallback(async (server: string, toolName: string, args: any) => {
     setLoading(true);
     setError(null);
-    
+
     try {
       const response = await fetch('/api/mcp-call-tool', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ toolName, args })
+        body: JSON.stringify({ server, toolName, args })
       });
-      
+
       const data = await response.json();
-      
+
       if (data.success) {
         return data.result;
       } else {
@@ -80,12 +198,19 @@ export function useMCPClient() {
   }, []);
 
   return {
-    tools,
-    resources,
+    servers,
+    details,
     loading,
     error,
-    connected,
-    connect,
+    adminToken,
+    setAdminToken,
+    loadServers,
+    addServer,
+    updateServer,
+    removeServer,
+    testServer,
+    loadServerDetails,
+    readResource,
     callTool
   };
-}
\ No newline at end of file
+}
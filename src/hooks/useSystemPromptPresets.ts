@@ -0,0 +1,43 @@
+import { useState, useCallback, useEffect } from 'react';
+import { SystemPromptPreset } from '@/lib/types/chat';
+
+const STORAGE_KEY = 'chat:systemPromptPresets';
+
+// Named system prompts saved in the browser, so they survive reloads and can be
+// attached to any conversation
+export function useSystemPromptPresets() {
+  const [presets, setPresets] = useState<SystemPromptPreset[]>([]);
+
+  // localStorage only exists in the browser, so load after mounting
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) setPresets(JSON.parse(stored));
+    } catch (error) {
+      console.error('Failed to load system prompt presets:', error);
+    }
+  }, []);
+
+  const persist = useCallback((update: (prev: SystemPromptPreset[]) => SystemPromptPreset[]) => {
+    setPresets(prev => {
+      const next = update(prev);
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  // Saving under an existing name replaces that preset
+  const savePreset = useCallback((name: string, prompt: string) => {
+    persist(prev => [...prev.filter(preset => preset.name !== name), { name, prompt }]);
+  }, [persist]);
+
+  const deletePreset = useCallback((name: string) => {
+    persist(prev => prev.filter(preset => preset.name !== name));
+  }, [persist]);
+
+  return {
+    presets,
+    savePreset,
+    deletePreset
+  };
+}
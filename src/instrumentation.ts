@@ -0,0 +1,14 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { MCPServerManager } = await import('@/services/mcp-server');
+
+  // Close pooled MCP sessions so servers aren't left holding them until they expire
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(signal, async () => {
+      await MCPServerManager.shutdownAll();
+      process.exit(0);
+    });
+  }
+}
@@ -1,5 +1,7 @@
-import { env } from "@/app/config/env";
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
 import { cacheService } from "@/services/cache";
+import { MCPServerManager } from "@/services/mcp-server";
+import { getEnabledMCPServerConfigs } from "@/services/mcpServerConfig";
 
 interface DynamicDiscoveryInterface {
   getAllTools(): Promise<any[]>;
@@ -8,6 +10,8 @@ interface DynamicDiscoveryInterface {
   getToolSummaries(): Promise<{name: string, description: string}[]>;
   validateToolSchema(tool: any): boolean;
   refreshToolSchema(toolName: string, server: string): Promise<void>;
+  refreshServerTools(server: string): Promise<number>;
+  forgetServer(server: string): Promise<void>;
   areToolsAvailable(): Promise<boolean>;
   getToolAvailabilityStatus(): Promise<{available: boolean, cachedTools: number, serverStatus: any}>;
 }
@@ -24,6 +28,20 @@ class DynamicDiscovery implements DynamicDiscoveryInterface {
     // Cache service is now handled by the dedicated CacheService
   }
 
+  // Registry IDs of the enabled servers
+  private getServerIds(): string[] {
+    return getEnabledMCPServerConfigs().map(server => server.id);
+  }
+
+  // Discovery runs on the server, so it asks the pooled connection directly rather than
+  // going through /api/mcp-tools
+  private async listServerTools(server: string): Promise<Tool[]> {
+    return MCPServerManager.getInstance(server).executeWithConnection(async (client) => {
+      const response = await client.listTools();
+      return response.tools;
+    });
+  }
+
   // Check if server is in circuit breaker state
   private isServerBlocked(server: string): boolean {
     const errorInfo = this.serverErrorCounts.get(server);
@@ -72,7 +90,7 @@ class DynamicDiscovery implements DynamicDiscoveryInterface {
       // Try to get cached tools from all servers
       const allTools: any[] = [];
       
-      for (const server of env.MCP_SERVERS) {
+      for (const server of this.getServerIds()) {
         // Skip servers in circuit breaker state
         if (this.isServerBlocked(server)) {
           console.log(`Skipping server ${server} due to circuit breaker`);
@@ -103,7 +121,7 @@ class DynamicDiscovery implements DynamicDiscoveryInterface {
   // Get cached tools from all servers
   private async getCachedTools(): Promise<any[]> {
     const allTools: any[] = [];
-    for (const server of env.MCP_SERVERS) {
+    for (const server of this.getServerIds()) {
       const cachedTools = await cacheService.getToolDiscovery(server);
       if (cachedTools) {
         allTools.push(...cachedTools);
@@ -147,20 +165,29 @@ class DynamicDiscovery implements DynamicDiscoveryInterface {
     // First try semantic search using Chroma
     const semanticResults = await cacheService.findSimilarTools(capability, 10);
     
+    const allTools = await this.getAllTools();
+
     if (semanticResults.length > 0) {
-      return semanticResults;
+      // Chroma only stores metadata, so map matches back to the full tools with their input schemas
+      const hydrated = semanticResults
+        .map(match => allTools.find(tool => tool.name === match.name && tool.server === match.server))
+        .filter(Boolean);
+
+      if (hydrated.length > 0) {
+        return hydrated;
+      }
     }
     
     // Fallback to traditional search if semantic search fails
-    const allTools = await this.getAllTools();
     const searchTerm = capability.toLowerCase();
     
     return allTools.filter(tool => {
-      // Check if tool has capabilities metadata
-      if (tool.capabilities && Array.isArray(tool.capabilities)) {
-        return tool.capabilities.some((cap: string) => 
-          cap.toLowerCase().includes(searchTerm)
-        );
+      // Check capabilities metadata; normalized tools always carry the list, often empty,
+      // so the name and description are still checked when it doesn't match
+      if (Array.isArray(tool.capabilities) && tool.capabilities.some((cap: string) =>
+        cap.toLowerCase().includes(searchTerm)
+      )) {
+        return true;
       }
       
       // Check if tool name contains capability
@@ -190,7 +217,7 @@ class DynamicDiscovery implements DynamicDiscoveryInterface {
 
   private async fetchToolsFromMCPServer(): Promise<any[]> {
     try {
-      const mcpServers: Array<string> = env.MCP_SERVERS;
+      const mcpServers: Array<string> = this.getServerIds();
       const allTools: any[] = [];
       let successfulServers = 0;
 
@@ -203,43 +230,25 @@ class DynamicDiscovery implements DynamicDiscoveryInterface {
         }
 
         try {
-          const response = await fetch(`/api/mcp-tools?server=${server}`, {
-            method: 'GET',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-          });
-
-          if (response.ok) {
-            const data = await response.json();
-            
-            // Handle the new API response format
-            if (data.success && data.tools) {
-              // Normalize tools with server info
-              const normalizedTools = this.normalizeToolData(data.tools, server);
-              allTools.push(...normalizedTools);
-              
-              // Cache the tools for this server
-              await cacheService.setToolDiscovery(server, normalizedTools);
-              
-              // Store tool embeddings for semantic search
-              for (const tool of normalizedTools) {
-                await cacheService.storeToolEmbedding(tool);
-              }
-              
-              // Reset error count on success
-              this.resetServerError(server);
-              successfulServers++;
-              
-              console.log(`Successfully fetched ${data.count || data.tools.length} tools from MCP server: ${server}`);
-            } else {
-              console.warn(`MCP server ${server} returned invalid response format`);
-              this.recordServerError(server);
-            }
-          } else {
-            console.warn(`MCP server ${server} responded with status: ${response.status}`);
-            this.recordServerError(server);
+          const tools = await this.listServerTools(server);
+
+          // Normalize tools with server info
+          const normalizedTools = this.normalizeToolData(tools, server);
+          allTools.push(...normalizedTools);
+
+          // Cache the tools for this server
+          await cacheService.setToolDiscovery(server, normalizedTools);
+
+          // Store tool embeddings for semantic search
+          for (const tool of normalizedTools) {
+            await cacheService.storeToolEmbedding(tool);
           }
+
+          // Reset error count on success
+          this.resetServerError(server);
+          successfulServers++;
+
+          console.log(`Successfully fetched ${tools.length} tools from MCP server: ${server}`);
         } catch (error) {
           console.warn(`Failed to fetch tools from MCP server ${server}:`, error);
           this.recordServerError(server);
@@ -270,7 +279,9 @@ class DynamicDiscovery implements DynamicDiscoveryInterface {
       description: tool.description || 'No description available',
       category: tool.category || 'general',
       capabilities: tool.capabilities || [],
-      schema: tool.schema || {},
+      // MCP tools/list returns the JSON Schema for the arguments as inputSchema
+      inputSchema: tool.inputSchema || { type: 'object', properties: {} },
+      schema: tool.schema || { inputSchema: tool.inputSchema },
       server: server, // Add server info
       // Minimal summary for LLM (only name and description)
       summary: {
@@ -282,7 +293,7 @@ class DynamicDiscovery implements DynamicDiscoveryInterface {
 
   // Clear cache for all servers
   private async clearCache(): Promise<void> {
-    for (const server of env.MCP_SERVERS) {
+    for (const server of this.getServerIds()) {
       await cacheService.clearServerCache(server);
     }
   }
@@ -355,30 +366,19 @@ class DynamicDiscovery implements DynamicDiscoveryInterface {
       await cacheService.clearServerCache(server);
       
       // Fetch fresh tools from server
-      const response = await fetch(`/api/mcp-tools?server=${server}`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        if (data.success && data.tools) {
-          const tool = data.tools.find((t: any) => t.name === toolName);
-          if (tool) {
-            // Normalize and cache the updated tool
-            const normalizedTool = this.normalizeToolData([tool], server)[0];
-            
-            // Update Redis cache
-            await cacheService.setToolSchema(toolName, server, normalizedTool.schema);
-            
-            // Update Chroma embedding
-            await cacheService.storeToolEmbedding(normalizedTool);
-            
-            console.log(`Refreshed schema for tool ${toolName} from server ${server}`);
-          }
-        }
+      const tools = await this.listServerTools(server);
+      const tool = tools.find(t => t.name === toolName);
+      if (tool) {
+        // Normalize and cache the updated tool
+        const normalizedTool = this.normalizeToolData([tool], server)[0];
+
+        // Update Redis cache
+        await cacheService.setToolSchema(toolName, server, normalizedTool.schema);
+
+        // Update Chroma embedding
+        await cacheService.storeToolEmbedding(normalizedTool);
+
+        console.log(`Refreshed schema for tool ${toolName} from server ${server}`);
       }
     } catch (error) {
       console.error(`Failed to refresh schema for tool ${toolName} from server ${server}:`, error);
@@ -386,6 +386,27 @@ class DynamicDiscovery implements DynamicDiscoveryInterface {
     }
   }
 
+  // Re-discover one server's tools, e.g. after it was added or its settings changed
+  async refreshServerTools(server: string): Promise<number> {
+    await this.forgetServer(server);
+
+    const normalizedTools = this.normalizeToolData(await this.listServerTools(server), server);
+    await cacheService.setToolDiscovery(server, normalizedTools);
+    for (const tool of normalizedTools) {
+      await cacheService.storeToolEmbedding(tool);
+    }
+
+    console.log(`Discovered ${normalizedTools.length} tools on MCP server: ${server}`);
+    return normalizedTools.length;
+  }
+
+  // Drop a removed or disabled server's tools from the caches and semantic search
+  async forgetServer(server: string): Promise<void> {
+    await cacheService.clearServerCache(server);
+    await cacheService.removeToolEmbeddings(server);
+    this.resetServerError(server);
+  }
+
   // Check if any tools are available (cached or fresh)
   async areToolsAvailable(): Promise<boolean> {
     try {
@@ -403,7 +424,7 @@ class DynamicDiscovery implements DynamicDiscoveryInterface {
     const serverStatus: any = {};
     
     // Check status of each server
-    for (const server of env.MCP_SERVERS) {
+    for (const server of this.getServerIds()) {
       const isBlocked = this.isServerBlocked(server);
       const errorInfo = this.serverErrorCounts.get(server);
       
@@ -1,16 +1,68 @@
+import { cacheService } from '@/services/cache';
+import { MCPServerManager } from '@/services/mcp-server';
+import { getMCPServerConfig } from '@/services/mcpServerConfig';
+import { env } from '@/app/config/env';
+
+// One tool call to run as part of a batch, identified by the model's tool-call ID
+interface ToolExecutionRequest {
+  toolCallId: string;
+  toolName: string;
+  parameters: any;
+  server?: string;
+}
+
+interface ToolExecutionResult {
+  executionId: string;
+  status: 'running' | 'completed' | 'failed';
+  result?: any;
+  error?: string;
+}
+
 interface DynamicExecutionInterface {
-  executeTool(toolName: string, parameters: any, server?: string): Promise<any>;
+  executeTool(toolName: string, parameters: any, server?: string, executionId?: string): Promise<ToolExecutionResult>;
+  executeTools(
+    requests: ToolExecutionRequest[],
+    onStart?: (executionId: string) => void
+  ): Promise<(ToolExecutionResult & { toolCallId: string })[]>;
   cancelExecution(executionId: string): Promise<void>;
   getExecutionStatus(executionId: string): Promise<any>;
 }
 
+// Limits how many calls run at once against a single MCP server; the rest wait in order
+class ConcurrencyLimiter {
+  private active = 0;
+  private waiting: (() => void)[] = [];
+
+  constructor(private readonly limit: number) {}
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.limit) {
+      // The finishing call hands its slot over, so active already counts this one
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    } else {
+      this.active++;
+    }
+
+    try {
+      return await task();
+    } finally {
+      // Passing the slot straight on keeps a newcomer from taking it before the waiter wakes
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+}
+
 class DynamicExecution implements DynamicExecutionInterface {
-  private redis: any; // Will be injected
-  private cacheService: any; // Will be injected
+  private limiters: Map<string, ConcurrencyLimiter> = new Map();
+  private concurrencyPerServer: number;
 
-  constructor(redis: any, cacheService: any) {
-    this.redis = redis;
-    this.cacheService = cacheService;
+  constructor(concurrencyPerServer: number = env.MCP_SERVER_CONCURRENCY) {
+    this.concurrencyPerServer = concurrencyPerServer;
   }
 
   // Generate unique execution ID
@@ -18,83 +70,99 @@ class DynamicExecution implements DynamicExecutionInterface {
     return `exec_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
   }
 
-  // Execute a tool with given parameters
-  async executeTool(toolName: string, parameters: any, server: string = 'default'): Promise<{
-    executionId: string;
-    status: 'running' | 'completed' | 'failed';
-    result?: any;
-    error?: string;
-  }> {
-    const executionId = this.generateExecutionId();
-    
+  private getLimiter(server: string): ConcurrencyLimiter {
+    if (!this.limiters.has(server)) {
+      this.limiters.set(server, new ConcurrencyLimiter(this.concurrencyPerServer));
+    }
+    return this.limiters.get(server)!;
+  }
+
+  // Execute several independent tool calls at once. Calls to different servers run in
+  // parallel, calls to the same server are capped, and every call gets its own result
+  // so one failure doesn't fail the rest
+  async executeTools(
+    requests: ToolExecutionRequest[],
+    onStart?: (executionId: string) => void
+  ): Promise<(ToolExecutionResult & { toolCallId: string })[]> {
+    return await Promise.all(requests.map(async request => {
+      const executionId = this.generateExecutionId();
+      onStart?.(executionId);
+
+      const result = await this.executeTool(request.toolName, request.parameters, request.server, executionId);
+      return { ...result, toolCallId: request.toolCallId };
+    }));
+  }
+
+  // Execute a tool with given parameters. Results are never reused: tools can have side
+  // effects or read state that changes between calls, so an identical call runs again
+  async executeTool(
+    toolName: string,
+    parameters: any,
+    server: string = 'default',
+    executionId: string = this.generateExecutionId()
+  ): Promise<ToolExecutionResult> {
     try {
-      // Check cache first for identical tool calls
-      const cacheKey = `tool_result:${toolName}:${JSON.stringify(parameters)}`;
-      const cachedResult = await this.cacheService.getToolSchema(cacheKey);
-      
-      if (cachedResult) {
+      const serverConfig = getMCPServerConfig(server);
+
+      if (!serverConfig?.enabled) {
+        const reason = serverConfig ? 'is disabled' : 'not found';
+        console.log(`[EXECUTION FAILED] Server '${server}' ${reason} for tool ${toolName}`);
+
         return {
           executionId,
-          status: 'completed',
-          result: cachedResult
+          status: 'failed' as const,
+          error: `Server '${server}' ${reason}`
         };
       }
 
-      // Call MCP server via API
-      const response = await fetch('/api/mcp-call-tool', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          toolName,
-          parameters,
-          server
-        })
+      const result = await this.getLimiter(serverConfig.id).run(async () => {
+        // The call may have been cancelled while it was waiting for a free slot
+        if (await cacheService.getExecutionState(executionId, 'cancelled')) {
+          return null;
+        }
+
+        return await MCPServerManager.getInstance(serverConfig.id).executeWithConnection(async (client) => {
+          return await client.callTool({
+            name: toolName,
+            arguments: parameters
+          });
+        });
       });
 
-      if (!response.ok) {
-        // Server error - MCP server down
-        console.log(`[EXECUTION FAILED] Server error for tool ${toolName}: MCP server unavailable`);
-        
+      if (!result) {
         return {
           executionId,
           status: 'failed' as const,
-          error: 'MCP server is currently unavailable'
+          error: 'Execution was cancelled'
         };
       }
 
-      const result = await response.json();
-      
-      if (!result.success) {
-        // Tool execution failed
-        console.log(`[EXECUTION FAILED] Tool ${toolName} failed: ${result.error || 'Unknown error'}`);
-        
+      if (result.isError) {
+        // Tool ran but reported an error
+        console.log(`[EXECUTION FAILED] Tool ${toolName} reported an error`);
+
         return {
           executionId,
           status: 'failed' as const,
-          error: result.error || 'Tool execution failed'
+          error: JSON.stringify(result.content)
         };
       }
 
-      // Success - cache result with 1-hour TTL
-      await this.cacheService.setToolSchema(cacheKey, result.result, 3600);
-      
       const successData = {
         executionId,
         status: 'completed' as const,
-        result: result.result
+        result
       };
-      
+
       // Store success in Redis with 1-hour TTL
-      await this.redis.setex(`execution:${executionId}:completed`, 3600, JSON.stringify(successData));
-      
+      await cacheService.setExecutionState(executionId, 'completed', successData);
+
       return successData;
 
     } catch (error) {
       // Network or other error
-      console.log(`[EXECUTION FAILED] Network error for tool ${toolName}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      
+      console.log(`[EXECUTION FAILED] Error for tool ${toolName}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+
       return {
         executionId,
         status: 'failed' as const,
@@ -111,8 +179,8 @@ class DynamicExecution implements DynamicExecutionInterface {
       status: 'cancelled' as const,
       cancelledAt: new Date().toISOString()
     };
-    
-    await this.redis.setex(`execution:${executionId}:cancelled`, 3600, JSON.stringify(cancelledData));
+
+    await cacheService.setExecutionState(executionId, 'cancelled', cancelledData);
   }
 
   // Get execution status and results
@@ -123,21 +191,20 @@ class DynamicExecution implements DynamicExecutionInterface {
     executionId: string;
   }> {
     // Check for different execution states (removed 'failed' since we don't store failed executions)
-    const states = ['running', 'completed', 'cancelled'];
-    
+    const states = ['running', 'completed', 'cancelled'] as const;
+
     for (const state of states) {
-      const data = await this.redis.get(`execution:${executionId}:${state}`);
+      const data = await cacheService.getExecutionState(executionId, state);
       if (data) {
-        const parsedData = JSON.parse(data);
         return {
-          status: parsedData.status,
-          result: parsedData.result,
-          error: parsedData.error,
-          executionId: parsedData.executionId
+          status: state,
+          result: data.result,
+          error: data.error as string | undefined,
+          executionId
         };
       }
     }
-    
+
     // Execution not found
     return {
       status: 'not_found',
@@ -147,4 +214,5 @@ class DynamicExecution implements DynamicExecutionInterface {
 }
 
 export default DynamicExecutionInterface;
-export { DynamicExecution };
+export { DynamicExecution, ConcurrencyLimiter };
+export type { ToolExecutionRequest, ToolExecutionResult };
@@ -4,6 +4,16 @@ import LLMFormattingInterface from './LLMFormattingInterface';
 import TransparencyInterface from './TransparencyInterface';
 import ConsentInterface from './ConsentInterface';
 import { cacheService } from '@/services/cache';
+import { GenerationContext } from '@/services/generationContext';
+import { env } from '@/app/config/env';
+import { ChatContent, ChatMessage, ChatStreamDelta, ToolCall, ToolDefinition } from '@/lib/types/chat';
+import { getLatestUserText } from '@/app/utils/chatContent';
+
+// Bounds for the agent loop so a model that keeps calling tools can't run forever
+interface AgentLimits {
+  maxIterations: number;
+  tokenBudget: number;
+}
 
 class DynamicFlow {
   // Dependencies
@@ -12,12 +22,10 @@ class DynamicFlow {
   private llmFormatting: LLMFormattingInterface;
   private transparency: TransparencyInterface;
   private consent: ConsentInterface;
+  private limits: AgentLimits;
   
-  // Execution tracking
-  private currentExecutionId: string | null = null;
-  
-  // TODO: Support multiple parallel executions
-  // private activeExecutionIds: Set<string> = new Set();
+  // Execution tracking - tool calls from one model turn run in parallel
+  private activeExecutionIds: Set<string> = new Set();
   
   // Cache service is now handled by the dedicated CacheService
 
@@ -26,13 +34,15 @@ class DynamicFlow {
     execution: DynamicExecutionInterface,
     llmFormatting: LLMFormattingInterface,
     transparency: TransparencyInterface,
-    consent: ConsentInterface
+    consent: ConsentInterface,
+    limits: AgentLimits = { maxIterations: env.AGENT_MAX_ITERATIONS, tokenBudget: env.AGENT_TOKEN_BUDGET }
   ) {
     this.discovery = discovery;
     this.execution = execution;
     this.llmFormatting = llmFormatting;
     this.transparency = transparency;
     this.consent = consent;
+    this.limits = limits;
   }
 
   // Helper methods
@@ -41,44 +51,53 @@ class DynamicFlow {
     return stopCommands.some(cmd => userRequest.toLowerCase().includes(cmd));
   }
 
+  private async cancelActiveExecutions(): Promise<void> {
+    await Promise.all([...this.activeExecutionIds].map(id => this.execution.cancelExecution(id)));
+    this.activeExecutionIds.clear();
+  }
+
 
 
 
 
-  private async predictOutcome(toolName: string, parameters: any, model?: string): Promise<string> {
+  private async predictOutcome(toolName: string, parameters: any, conversation: ChatMessage[], model?: string): Promise<string> {
     try {
-      const analysis = await this.llmFormatting.analyzeToolOutcome(toolName, parameters, model);
+      const analysis = await this.llmFormatting.analyzeToolOutcome(toolName, parameters, conversation, model);
       return analysis.userExplanation;
     } catch (error) {
-      // Fallback if analysis fails
-      return `Expected to execute ${toolName} with provided parameters`;
+      // Say the prediction is missing rather than passing off a generic one
+      return `Outcome analysis failed (${error instanceof Error ? error.message : 'Unknown error'}); ${toolName} will run with the parameters shown`;
     }
   }
 
-  private async assessRisks(toolName: string, parameters: any, model?: string): Promise<{risks: string[], shouldBlock: boolean}> {
+  private async assessRisks(
+    toolName: string,
+    parameters: any,
+    conversation: ChatMessage[],
+    model?: string
+  ): Promise<{risks: string[], shouldBlock: boolean}> {
     try {
-      const analysis = await this.llmFormatting.analyzeToolOutcome(toolName, parameters, model);
+      const analysis = await this.llmFormatting.analyzeToolOutcome(toolName, parameters, conversation, model);
       
       const risks = [];
       let shouldBlock = false;
       
-      if (analysis.safetyAnalysis.toLowerCase().includes('write') || 
-          analysis.safetyAnalysis.toLowerCase().includes('modify')) {
+      if (analysis.modifiesData) {
         risks.push('This operation may modify your data');
         shouldBlock = true; // Block write/modify operations
       }
       
-      if (analysis.safetyAnalysis.toLowerCase().includes('delete')) {
+      if (analysis.deletesData) {
         risks.push('This operation may delete data');
         shouldBlock = true; // Block delete operations
       }
       
-      if (analysis.safetyAnalysis.toLowerCase().includes('sensitive')) {
+      if (analysis.accessesSensitiveData) {
         risks.push('This operation may access sensitive information');
         shouldBlock = true; // Block sensitive data access
       }
       
-      if (analysis.safetyAnalysis.toLowerCase().includes('system')) {
+      if (analysis.affectsSystem) {
         risks.push('This operation may affect system settings');
         shouldBlock = true; // Block system settings changes
       }
@@ -88,20 +107,24 @@ class DynamicFlow {
         shouldBlock
       };
     } catch (error) {
-      // Default to blocking if analysis fails
-      return { risks: ['Unable to assess safety'], shouldBlock: true };
+      // Block when the analysis fails, and say why
+      return {
+        risks: [`Safety analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`],
+        shouldBlock: true
+      };
     }
   }
 
 
 
-  private async executeModifiedPlan(modifiedPlan: any, model?: string): Promise<string> {
+  private async executeModifiedPlan(modifiedPlan: any, conversation: ChatMessage[], model?: string): Promise<string> {
     try {
       // 1. Analyze user feedback to understand what they want changed
       const modificationAnalysis = await this.llmFormatting.analyzeModifications(
         modifiedPlan.userFeedback,
         modifiedPlan.originalTool,
         modifiedPlan.originalParameters,
+        conversation,
         model
       );
       
@@ -126,7 +149,8 @@ class DynamicFlow {
       // 4. Re-run safety checks on modified plan
       const riskAssessment = await this.assessRisks(
         modifiedPlan.originalTool, 
-        newParameters
+        newParameters,
+        conversation
       );
       
       if (riskAssessment.shouldBlock) {
@@ -141,7 +165,7 @@ class DynamicFlow {
           plan: {
             tool: modifiedPlan.originalTool,
             parameters: newParameters,
-            expectedOutcome: await this.predictOutcome(modifiedPlan.originalTool, newParameters),
+            expectedOutcome: await this.predictOutcome(modifiedPlan.originalTool, newParameters, conversation),
             risks: riskAssessment.risks,
             alternatives: []
           },
@@ -154,7 +178,7 @@ class DynamicFlow {
         return await this.executeDynamicFlow(
           modifiedPlan.originalTool,
           newParameters,
-          modifiedPlan.originalRequest
+          conversation
         );
       } else if (consentResult.modificationRequested) {
         // Recursive modification - user wants further changes
@@ -162,7 +186,7 @@ class DynamicFlow {
           ...modifiedPlan,
           userFeedback: consentResult.userFeedback,
           originalParameters: newParameters // Use current as new original
-        });
+        }, conversation);
       } else {
         return await this.consent.handleRejection(consentResult.reason);
       }
@@ -173,24 +197,29 @@ class DynamicFlow {
     }
   }
 
-  async processUserRequest(originalUserRequest: string, model: string = 'auto'): Promise<string> {
+  // conversation is the full chat history, including earlier tool calls and their results.
+  // onDelta receives tool progress and streamed answer tokens as they happen
+  async processUserRequest(
+    conversation: ChatMessage[],
+    model: string = 'auto',
+    onDelta?: (delta: ChatStreamDelta) => void
+  ): Promise<ChatContent[]> {
+    const originalUserRequest = getLatestUserText(conversation);
+
     // Check for stop commands from the original human user
     if (this.isStopCommand(originalUserRequest)) {
-      // Cancel current execution if one is running
-      if (this.currentExecutionId) {
-        await this.execution.cancelExecution(this.currentExecutionId);
-        this.currentExecutionId = null;
-      }
-      return "Stopped processing. How can I help you?";
+      // Cancel every execution that is still running
+      await this.cancelActiveExecutions();
+      return [{ type: 'text', content: "Stopped processing. How can I help you?" }];
     }
 
     // Step 1: Single LLM call to analyze request and provide response or indicate tools needed
-    const analysis = await this.llmFormatting.analyzeRequest(originalUserRequest, model);
+    const analysis = await this.llmFormatting.analyzeRequest(conversation, model);
     
     if (!analysis.needsTools) {
       // LLM provided direct response
       console.log('LLM provided direct conversational response');
-      return analysis.response || 'I\'m here to help!';
+      return [{ type: 'text', content: analysis.response || 'I\'m here to help!' }];
     }
 
     // Step 2: LLM indicated tools are needed - check if tools are available
@@ -198,50 +227,183 @@ class DynamicFlow {
     
     if (allTools.length === 0) {
       console.log('LLM requested tools but none are available');
-      return "I'm unable to access the MCP tools at the moment. They may be temporarily unavailable. I can still help you with general questions and conversation!";
+      return [{ type: 'text', content: "I'm unable to access the MCP tools at the moment. They may be temporarily unavailable. I can still help you with general questions and conversation!" }];
     }
 
     // Step 3: Discover relevant tools using semantic search
     const availableTools = await this.discovery.findToolsByCapability(originalUserRequest);
-    
-    // Step 4: Let LLM select the best tool
-    const toolSelection = await this.llmFormatting.selectTool(originalUserRequest, availableTools, model);
-    
-    if (!toolSelection.selectedTool || toolSelection.selectedTool === 'none') {
-      // LLM decided no tools needed - provide conversational response
-      return await this.llmFormatting.getConversationalResponse(originalUserRequest, model);
+
+    if (availableTools.length === 0) {
+      // Nothing relevant to call - provide conversational response
+      const response = await this.llmFormatting.getConversationalResponse(conversation, model, this.toTokenHandler(onDelta));
+      return [{ type: 'text', content: response }];
+    }
+
+    // Step 4: Let the model call tools until it can answer
+    return await this.runAgentLoop(conversation, availableTools, model, onDelta);
+  }
+
+  // Calls the model, runs the tool calls it asks for, feeds the results back and repeats
+  // until the model answers without calling tools or a limit is reached
+  private async runAgentLoop(
+    history: ChatMessage[],
+    availableTools: { name: string; description: string; inputSchema?: Record<string, unknown>; server?: string }[],
+    model: string,
+    onDelta?: (delta: ChatStreamDelta) => void
+  ): Promise<ChatContent[]> {
+    const tools: ToolDefinition[] = availableTools.map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: tool.inputSchema || { type: 'object', properties: {} }
+    }));
+
+    const conversation: ChatMessage[] = [...history];
+
+    // Every step the model took, returned as the assistant message
+    const steps: ChatContent[] = [];
+    let tokensUsed = 0;
+
+    for (let iteration = 1; iteration <= this.limits.maxIterations; iteration++) {
+      const response = await this.llmFormatting.runAgentStep(conversation, tools, model, onDelta);
+      tokensUsed += this.llmFormatting.countTokens([
+        ...conversation,
+        { role: 'assistant', content: response, timestamp: new Date() }
+      ]);
+
+      const toolCalls = response
+        .filter(item => item.type === 'tool')
+        .map(item => item.content as ToolCall);
+
+      if (toolCalls.length === 0) {
+        // No more tool calls - this is the final answer
+        steps.push(...response);
+        return steps;
+      }
+
+      const finishedCalls = await this.executeToolCalls(toolCalls, availableTools, conversation, model);
+      finishedCalls.forEach(call => onDelta?.({ type: 'tool_finish', content: call }));
+
+      // Record the results on the calls so the next turn sees them
+      const stepContent = response.map(item => item.type === 'tool'
+        ? { type: 'tool' as const, content: finishedCalls.find(call => call.id === (item.content as ToolCall).id)! }
+        : item
+      );
+      steps.push(...stepContent);
+      conversation.push({ role: 'assistant', content: stepContent, timestamp: new Date() });
+
+      if (tokensUsed >= this.limits.tokenBudget) {
+        return this.stopAgentLoop(steps, `I stopped after ${iteration} tool step(s) because this request used up its token budget.`, onDelta);
+      }
     }
 
-    // Step 5: Execute the dynamic flow with selected tool and parameters
-    return await this.executeDynamicFlow(
-      toolSelection.selectedTool,
-      {}, // Parameters will be extracted by the calling LLM
-      originalUserRequest,
-      model
+    return this.stopAgentLoop(steps, `I stopped after ${this.limits.maxIterations} tool steps without reaching a final answer.`, onDelta);
+  }
+
+  private stopAgentLoop(steps: ChatContent[], note: string, onDelta?: (delta: ChatStreamDelta) => void): ChatContent[] {
+    onDelta?.({ type: 'text', content: note });
+    return [...steps, { type: 'text', content: note }];
+  }
+
+  // Runs the tool calls from one model turn. Each call goes through the same risk and
+  // consent checks as executeDynamicFlow, then the approved calls execute in parallel.
+  // Every call comes back with its own result or error so the model sees partial failures
+  private async executeToolCalls(
+    toolCalls: ToolCall[],
+    availableTools: { name: string; server?: string }[],
+    conversation: ChatMessage[],
+    model: string
+  ): Promise<ToolCall[]> {
+    const rejections = await Promise.all(toolCalls.map(toolCall => this.checkConsent(toolCall, conversation, model)));
+
+    // Nobody is waiting for the results once the turn is aborted, so nothing new is started
+    GenerationContext.signal()?.throwIfAborted();
+
+    const approved = toolCalls.filter((_, index) => rejections[index] === null);
+    const results = await this.execution.executeTools(
+      approved.map(toolCall => ({
+        toolCallId: toolCall.id,
+        toolName: toolCall.name,
+        parameters: toolCall.input ?? {},
+        server: availableTools.find(tool => tool.name === toolCall.name)?.server
+      })),
+      executionId => this.activeExecutionIds.add(executionId)
     );
+
+    return await Promise.all(toolCalls.map(async (toolCall, index): Promise<ToolCall> => {
+      const rejection = rejections[index];
+      if (rejection !== null) {
+        return { ...toolCall, status: 'failed', error: rejection };
+      }
+
+      const result = results.find(item => item.toolCallId === toolCall.id)!;
+      this.activeExecutionIds.delete(result.executionId);
+
+      await this.transparency.logDecision({
+        type: 'tool_call',
+        action: 'execute',
+        tool: toolCall.name,
+        parameters: toolCall.input,
+        userRequest: getLatestUserText(conversation),
+        outcome: result.status
+      });
+
+      return result.status === 'failed'
+        ? { ...toolCall, status: 'failed', error: result.error }
+        : { ...toolCall, status: 'completed', result: result.result };
+    }));
   }
 
+  // Returns why the call may not run, or null when it is low risk or the user approved it
+  private async checkConsent(toolCall: ToolCall, conversation: ChatMessage[], model: string): Promise<string | null> {
+    const parameters = toolCall.input ?? {};
+
+    try {
+      const riskAssessment = await this.assessRisks(toolCall.name, parameters, conversation, model);
+      if (!riskAssessment.shouldBlock) {
+        return null;
+      }
 
+      const expectedOutcome = await this.predictOutcome(toolCall.name, parameters, conversation, model);
+      const consentResult = await this.consent.getConsent(toolCall.name, {
+        explanation: this.consent.explainConsentRequest(expectedOutcome, riskAssessment.risks),
+        plan: {
+          tool: toolCall.name,
+          parameters,
+          expectedOutcome,
+          risks: riskAssessment.risks
+        }
+      });
+
+      if (consentResult.approved) {
+        return null;
+      }
+      return consentResult.modificationRequested
+        ? `The user asked for changes before running this tool: ${consentResult.userFeedback}`
+        : await this.consent.handleRejection(consentResult.reason);
+    } catch (error) {
+      // Report the failure to the model instead of aborting the whole loop
+      return error instanceof Error ? error.message : 'Unknown error';
+    }
+  }
 
   async executeDynamicFlow(
     llmSelectedTool: string,
     llmExtractedParameters: any,
-    originalUserRequest: string,
-    model: string = 'auto'
+    conversation: ChatMessage[],
+    model: string = 'auto',
+    server?: string,
+    onDelta?: (delta: ChatStreamDelta) => void
   ): Promise<string> {
     // Check for stop commands from the original human user
-    if (this.isStopCommand(originalUserRequest)) {
-      // Cancel current execution if one is running
-      if (this.currentExecutionId) {
-        await this.execution.cancelExecution(this.currentExecutionId);
-        this.currentExecutionId = null;
-      }
+    if (this.isStopCommand(getLatestUserText(conversation))) {
+      // Cancel every execution that is still running
+      await this.cancelActiveExecutions();
       return "Stopped processing. How can I help you?";
     }
     
     // Step 1: Create Execution Plan
-    const expectedOutcome = await this.predictOutcome(llmSelectedTool, llmExtractedParameters, model);
-    const riskAssessment = await this.assessRisks(llmSelectedTool, llmExtractedParameters, model);
+    const expectedOutcome = await this.predictOutcome(llmSelectedTool, llmExtractedParameters, conversation, model);
+    const riskAssessment = await this.assessRisks(llmSelectedTool, llmExtractedParameters, conversation, model);
     
     // Step 2: Handle Consent Based on Risk Level
     if (riskAssessment.shouldBlock) {
@@ -267,28 +429,56 @@ class DynamicFlow {
       // Handle consent response
       if (consentResult.approved) {
         // User approved - proceed with execution
-        const result = await this.execution.executeTool(llmSelectedTool, llmExtractedParameters);
-        this.currentExecutionId = result.executionId;
-        const response = await this.llmFormatting.formatResponseWithLLM(result.result, { originalUserRequest, toolUsed: llmSelectedTool }, model);
-        this.currentExecutionId = null; // Clear after completion
-        return response;
+        return await this.runTool(llmSelectedTool, llmExtractedParameters, conversation, model, server, onDelta);
       } else if (consentResult.modificationRequested) {
         // User wants modifications
         const modifiedPlan = await this.consent.handleModificationRequest(consentResult.userFeedback);
-        return await this.executeModifiedPlan(modifiedPlan, model);
+        return await this.executeModifiedPlan(modifiedPlan, conversation, model);
       } else {
         // User rejected
         return await this.consent.handleRejection(consentResult.reason);
       }
           } else {
         // Low risk operation - proceed directly without consent
-        const result = await this.execution.executeTool(llmSelectedTool, llmExtractedParameters);
-        this.currentExecutionId = result.executionId;
-        const response = await this.llmFormatting.formatResponseWithLLM(result.result, { originalUserRequest, toolUsed: llmSelectedTool }, model);
-        this.currentExecutionId = null; // Clear after completion
-        return response;
+        return await this.runTool(llmSelectedTool, llmExtractedParameters, conversation, model, server, onDelta);
       }
   }
+
+  private async runTool(
+    toolName: string,
+    parameters: any,
+    conversation: ChatMessage[],
+    model: string,
+    server?: string,
+    onDelta?: (delta: ChatStreamDelta) => void
+  ): Promise<string> {
+    const toolCall: ToolCall = {
+      id: `call_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+      name: toolName,
+      input: parameters
+    };
+
+    onDelta?.({ type: 'tool_start', content: toolCall });
+    const [result] = await this.execution.executeTools(
+      [{ toolCallId: toolCall.id, toolName, parameters, server }],
+      executionId => this.activeExecutionIds.add(executionId)
+    );
+    this.activeExecutionIds.delete(result.executionId); // Clear after completion
+    onDelta?.({ type: 'tool_finish', content: toolCall });
+
+    const response = await this.llmFormatting.formatResponseWithLLM(
+      result.result,
+      { originalUserRequest: getLatestUserText(conversation), toolUsed: toolName },
+      conversation,
+      model,
+      this.toTokenHandler(onDelta)
+    );
+    return response;
+  }
+
+  private toTokenHandler(onDelta?: (delta: ChatStreamDelta) => void): ((token: string) => void) | undefined {
+    return onDelta ? (token: string) => onDelta({ type: 'text', content: token }) : undefined;
+  }
 }
 
 export { DynamicFlow };
\ No newline at end of file
@@ -1,46 +1,151 @@
-import { ProviderFactory } from '@/services/providerFactory';
+import { ProviderRouter } from '@/services/providerRouter';
 import { cacheService } from '@/services/cache';
 import { Logger } from '@/app/utils/logger';
+import {
+  ChatContent,
+  ChatMessage,
+  ChatRequestOptions,
+  ChatStreamDelta,
+  GenerationOptions,
+  ToolCall,
+  ToolDefinition
+} from '@/lib/types/chat';
+import { applyDelta, getLatestUserAttachments, getLatestUserText } from '@/app/utils/chatContent';
+import TransparencyInterface, { Transparency } from './TransparencyInterface';
+import { UsageTracker } from '@/services/usageTracker';
+import { GenerationContext } from '@/services/generationContext';
+import { createHash } from 'crypto';
+import { z } from 'zod/v4';
 
 const logger = new Logger("LLMFormatting");
 
+// Largest share of a model's input budget that any single tool output may take up
+const TOOL_OUTPUT_SHARE = 0.25;
+
+const DEFAULT_SYSTEM_PROMPT = 'You are a helpful AI assistant that can answer general questions conversationally and also has access to tools when they are available. You can provide informative responses on any topic and use tools when external access is needed.';
+
+// Operations whose output is the reply the user reads
+const REPLY_OPERATIONS = new Set(['format_response', 'conversational_response', 'agent_step']);
+
+// Replies of the analysis calls. Each schema is sent to the provider as structured output
+// and the reply is validated against it
+const ToolOutcomeAnalysisSchema = z.object({
+  userExplanation: z.string().describe('What the tool will do, in simple terms the user can understand'),
+  safetyAnalysis: z.string().describe('Assessment of the risks of running the tool with these parameters'),
+  modifiesData: z.boolean().describe('The tool writes or modifies data'),
+  deletesData: z.boolean().describe('The tool deletes data'),
+  accessesSensitiveData: z.boolean().describe('The tool reads sensitive information such as credentials or personal data'),
+  affectsSystem: z.boolean().describe('The tool changes system settings or has other system-level impact')
+});
+
+const ModificationAnalysisSchema = z.object({
+  changes: z.record(z.string(), z.unknown()).describe('Only the parameters that change, with their new values'),
+  reasoning: z.string().describe('What the user wants changed and why'),
+  newParameters: z.record(z.string(), z.unknown()).describe('The complete updated parameters to run the tool with')
+});
+
+const ToolsNeededDecisionSchema = z.object({
+  needsTools: z.boolean().describe('The request needs files, systems, real-time data or other external access'),
+  reasoning: z.string().describe('Why tools are or are not needed')
+});
+
+const RequestAnalysisSchema = z.object({
+  needsTools: z.boolean().describe('The request needs files, systems, real-time data or other external access'),
+  response: z.string().optional().describe('The conversational answer, required when needsTools is false'),
+  reasoning: z.string().optional().describe('What kind of access is needed, when needsTools is true')
+}).refine(analysis => analysis.needsTools || !!analysis.response?.trim(), {
+  message: 'response is required when needsTools is false',
+  path: ['response']
+});
+
+export type ToolOutcomeAnalysis = z.infer<typeof ToolOutcomeAnalysisSchema>;
+export type ModificationAnalysis = z.infer<typeof ModificationAnalysisSchema>;
+export type ToolsNeededDecision = z.infer<typeof ToolsNeededDecisionSchema>;
+export type RequestAnalysis = z.infer<typeof RequestAnalysisSchema>;
+
+// An analysis reply that still didn't match its schema after one repair attempt
+class StructuredOutputError extends Error {
+  constructor(
+    public readonly operation: string,
+    public readonly validationError: string,
+    public readonly reply: string
+  ) {
+    super(`${operation} returned an invalid response: ${validationError}`);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+function toResponseSchema(schema: z.ZodType): Record<string, unknown> {
+  const jsonSchema: Record<string, unknown> = z.toJSONSchema(schema);
+  // Vendors reject or ignore the $schema dialect marker
+  delete jsonSchema.$schema;
+  return jsonSchema;
+}
+
+// Pulls the JSON object out of a reply (JSON-mode models sometimes wrap it in a code
+// fence or prose) and validates it
+function parseStructuredReply<T>(reply: string, schema: z.ZodType<T>): { success: true; data: T } | { success: false; error: string } {
+  const start = reply.indexOf('{');
+  const end = reply.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    return { success: false, error: 'The reply contains no JSON object' };
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(reply.slice(start, end + 1));
+  } catch (error) {
+    return { success: false, error: `The reply is not valid JSON (${error instanceof Error ? error.message : 'parse error'})` };
+  }
+
+  const result = schema.safeParse(value);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, error: z.prettifyError(result.error) };
+}
+
 interface LLMFormattingInterface {
-  formatResponseWithLLM(rawResponse: any, context: any, model?: string): Promise<string>;
-  analyzeToolOutcome(toolName: string, parameters: any, model?: string): Promise<{
-    userExplanation: string;
-    safetyAnalysis: string;
-  }>;
-  selectTool(userRequest: string, availableTools: any[], model?: string): Promise<{
+  formatResponseWithLLM(
+    rawResponse: any,
+    context: any,
+    conversation: ChatMessage[],
+    model?: string,
+    onToken?: (token: string) => void
+  ): Promise<string>;
+  analyzeToolOutcome(toolName: string, parameters: any, conversation: ChatMessage[], model?: string): Promise<ToolOutcomeAnalysis>;
+  selectTool(conversation: ChatMessage[], availableTools: any[], model?: string): Promise<{
     selectedTool: string | null;
+    parameters: any;
     reasoning: string;
   }>;
   analyzeModifications(
     userFeedback: string,
     originalTool: string,
     originalParameters: any,
+    conversation: ChatMessage[],
     model?: string
-  ): Promise<{
-    changes: any;
-    reasoning: string;
-    newParameters: any;
-  }>;
-  getConversationalResponse(userRequest: string, model?: string): Promise<string>;
-  decideIfToolsNeeded(userRequest: string, model?: string): Promise<{
-    needsTools: boolean;
-    reasoning: string;
-  }>;
-  analyzeRequest(userRequest: string, model?: string): Promise<{
-    needsTools: boolean;
-    response?: string;
-    reasoning?: string;
-  }>;
+  ): Promise<ModificationAnalysis>;
+  getConversationalResponse(conversation: ChatMessage[], model?: string, onToken?: (token: string) => void): Promise<string>;
+  decideIfToolsNeeded(conversation: ChatMessage[], model?: string): Promise<ToolsNeededDecision>;
+  analyzeRequest(conversation: ChatMessage[], model?: string): Promise<RequestAnalysis>;
+  runAgentStep(
+    conversation: ChatMessage[],
+    tools: ToolDefinition[],
+    model?: string,
+    onDelta?: (delta: ChatStreamDelta) => void
+  ): Promise<ChatContent[]>;
+  countTokens(conversation: ChatMessage[]): number;
 }
 
 class LLMFormatting implements LLMFormattingInterface {
-  private defaultProvider: string = 'openai';
+  private defaultProvider: string;
   private defaultModel: string = 'auto';
-  
-  constructor() {
+  private transparency: TransparencyInterface;
+
+  constructor(providerName: string = 'openai', transparency: TransparencyInterface = new Transparency()) {
+    this.defaultProvider = providerName;
+    this.transparency = transparency;
+
     // Enable garbage collection for memory monitoring
     if (process.env.NODE_ENV === 'development') {
       console.log('Memory monitoring enabled in development mode');
@@ -51,18 +156,212 @@ class LLMFormatting implements LLMFormattingInterface {
     return await cacheService.getLLMAnalysis(cacheKey);
   }
 
+  // Entries cached before a schema changed no longer validate and are ignored
+  private async getCachedAnalysis<T>(cacheKey: string, schema: z.ZodType<T>): Promise<T | null> {
+    const cached = await this.getCachedLLMResponse(cacheKey);
+    if (!cached) return null;
+
+    const result = schema.safeParse(cached);
+    return result.success ? result.data : null;
+  }
+
   private async setCachedLLMResponse(cacheKey: string, response: any): Promise<void> {
     await cacheService.setLLMAnalysis(cacheKey, response);
   }
 
+  // Replies depend on the request's system prompt and sampling settings as well as the arguments
   private generateCacheKey(operation: string, ...args: any[]): string {
-    const argsString = args.map(arg => 
+    const generation = GenerationContext.current();
+    const argsString = [...args, ...(generation ? [generation] : [])].map(arg => 
       typeof arg === 'object' ? JSON.stringify(arg) : String(arg)
     ).join(':');
     return `${operation}:${argsString}`;
   }
 
-  private async callLLM(prompt: string, model?: string): Promise<string> {
+  // Histories can be long, so cache keys carry a digest of the conversation instead
+  private conversationKey(conversation: ChatMessage[]): string {
+    return createHash('sha256').update(JSON.stringify(conversation)).digest('hex');
+  }
+
+  // Everything before the latest user message is context; what the user typed goes in the prompt,
+  // with the images and files attached to it sent alongside
+  private splitConversation(conversation: ChatMessage[]): { history: ChatMessage[]; userRequest: string; attachments: ChatContent[] } {
+    let lastUserIndex = conversation.length - 1;
+    while (lastUserIndex >= 0 && conversation[lastUserIndex].role !== 'user') {
+      lastUserIndex--;
+    }
+
+    return {
+      history: lastUserIndex >= 0 ? conversation.slice(0, lastUserIndex) : conversation,
+      userRequest: getLatestUserText(conversation),
+      attachments: getLatestUserAttachments(conversation)
+    };
+  }
+
+  // Input tokens left once the reply's output allowance is set aside
+  private getInputBudget(model?: string): number {
+    const spec = this.getProvider().getModelSpec(model || this.defaultModel);
+    return spec.contextWindow - spec.maxOutputTokens;
+  }
+
+  private getToolOutputLimit(model?: string): number {
+    return Math.floor(this.getInputBudget(model) * TOOL_OUTPUT_SHARE);
+  }
+
+  // Cuts text down to maxTokens by keeping the first two thirds and the last third
+  // of what fits and dropping the middle, so the same input is always cut the same way
+  private truncateText(text: string, maxTokens: number): { text: string; omittedTokens: number } {
+    const tokens = this.getProvider().estimateTokens(text);
+    if (tokens <= maxTokens) {
+      return { text, omittedTokens: 0 };
+    }
+
+    const keepChars = Math.floor(text.length * maxTokens / tokens);
+    const head = text.slice(0, Math.ceil(keepChars * 2 / 3));
+    const tail = text.slice(text.length - Math.floor(keepChars / 3));
+    const omittedTokens = tokens - maxTokens;
+
+    return {
+      text: `${head}\n[... ${omittedTokens} tokens omitted to fit the context window ...]\n${tail}`,
+      omittedTokens
+    };
+  }
+
+  // Records what was cut from a prompt in the transparency trace
+  private async recordCut(action: string, tool: string | undefined, details: Record<string, unknown>): Promise<void> {
+    logger.warn(`Context window: ${action}`, details);
+    await this.transparency.logDecision({
+      type: 'context_window',
+      action,
+      tool,
+      parameters: details,
+      reasoning: 'Prompt would exceed the model context window',
+      outcome: 'truncated'
+    });
+  }
+
+  // Fits the conversation into what is left of the context window after reservedTokens
+  // (system prompt, instructions, tool definitions). Oversized tool outputs are cut first;
+  // if it still doesn't fit, the oldest turns are replaced with a summary
+  private async fitConversation(conversation: ChatMessage[], model?: string, reservedTokens = 0): Promise<ChatMessage[]> {
+    const provider = this.getProvider();
+    const budget = Math.max(0, this.getInputBudget(model) - reservedTokens);
+    const toolOutputLimit = this.getToolOutputLimit(model);
+    const cuts: Promise<void>[] = [];
+
+    const capped = conversation.map(msg => ({
+      ...msg,
+      content: msg.content.map(item => {
+        if (item.type !== 'tool') return item;
+
+        const toolCall = item.content as ToolCall;
+        if (toolCall.result === undefined) return item;
+
+        const resultText = typeof toolCall.result === 'string' ? toolCall.result : JSON.stringify(toolCall.result);
+        const { text, omittedTokens } = this.truncateText(resultText, toolOutputLimit);
+        if (omittedTokens === 0) return item;
+
+        cuts.push(this.recordCut('truncate_tool_output', toolCall.name, { model, omittedTokens, keptTokens: toolOutputLimit }));
+        return { ...item, content: { ...toolCall, result: text } };
+      })
+    }));
+    await Promise.all(cuts);
+
+    let used = 0;
+    let start = capped.length;
+    while (start > 0) {
+      const tokens = provider.estimateTokens([capped[start - 1]]);
+      // The latest message is always kept, even when it alone is over budget
+      if (used + tokens > budget && start < capped.length) break;
+      used += tokens;
+      start--;
+    }
+
+    // Vendors expect the kept messages to open with a user turn
+    while (start > 0 && start < capped.length - 1 && capped[start].role !== 'user') {
+      start++;
+    }
+
+    if (start === 0) {
+      return capped;
+    }
+
+    const dropped = capped.slice(0, start);
+    // The summary may take at most a quarter of what is left for history
+    const summary = await this.summarizeConversation(dropped, Math.max(1, Math.floor((budget - used) / 4)), model);
+    await this.recordCut('summarize_history', undefined, {
+      model,
+      summarizedMessages: start,
+      summarizedTokens: provider.estimateTokens(dropped)
+    });
+
+    return [
+      {
+        role: 'system',
+        content: [{ type: 'text', content: `Summary of the earlier conversation:\n${summary}` }],
+        timestamp: new Date()
+      },
+      ...capped.slice(start)
+    ];
+  }
+
+  private async summarizeConversation(messages: ChatMessage[], maxTokens: number, model?: string): Promise<string> {
+    const cacheKey = this.generateCacheKey('summarize_conversation', this.conversationKey(messages));
+
+    const cached = await this.getCachedLLMResponse(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    // The transcript being summarized must itself fit in the context window
+    const transcript = this.truncateText(this.toTranscript(messages), this.getInputBudget(model) - 1000).text;
+
+    const prompt = `
+      Summarize this earlier part of a conversation so it can continue without the full transcript.
+      Keep names, file paths, identifiers, decisions, tool results and open questions.
+      Use at most ${maxTokens} tokens.
+
+      Conversation:
+      ${transcript}
+    `;
+
+    const summary = await this.callLLM('summarize_conversation', prompt, model);
+
+    await this.setCachedLLMResponse(cacheKey, summary);
+
+    return summary;
+  }
+
+  private toTranscript(messages: ChatMessage[]): string {
+    return messages.map(msg => {
+      const parts = msg.content.map(item => {
+        if (item.type === 'text') return item.content as string;
+        // Summaries are text-only, so images are noted but not described
+        if (item.type === 'image') return '[image attached]';
+        if (item.type === 'tool') {
+          const toolCall = item.content as ToolCall;
+          const outcome = toolCall.status === 'failed'
+            ? `failed: ${toolCall.error}`
+            : JSON.stringify(toolCall.result ?? null);
+          return `[called ${toolCall.name} with ${JSON.stringify(toolCall.input ?? {})} -> ${outcome}]`;
+        }
+        return '';
+      });
+      return `${msg.role}: ${parts.filter(Boolean).join('\n')}`;
+    }).join('\n\n');
+  }
+
+  // When onToken is given the reply is streamed and each text fragment is forwarded as it arrives.
+  // history holds the earlier conversation that the prompt follows on from, attachments are the
+  // user's attachments sent with the prompt, and operation labels the call in usage accounting
+  private async callLLM(
+    operation: string,
+    prompt: string,
+    model?: string,
+    onToken?: (token: string) => void,
+    history: ChatMessage[] = [],
+    attachments: ChatContent[] = []
+  ): Promise<string> {
     try {
       console.log('Memory usage before LLM call:', {
         rss: Math.round(process.memoryUsage().rss / 1024 / 1024) + 'MB',
@@ -70,26 +369,28 @@ class LLMFormatting implements LLMFormattingInterface {
         heapTotal: Math.round(process.memoryUsage().heapTotal / 1024 / 1024) + 'MB'
       });
 
-      const provider = ProviderFactory.getProvider(this.defaultProvider);
-      if (!provider) {
-        throw new Error(`Provider ${this.defaultProvider} not available`);
-      }
-
-      const messages = [
-        { 
-          role: 'system' as const, 
-          content: [{ type: 'text' as const, content: 'You are a helpful AI assistant that can answer general questions conversationally and also has access to tools when they are available. You can provide informative responses on any topic and use tools when external access is needed.' }],
-          timestamp: new Date()
-        },
-        { 
-          role: 'user' as const, 
-          content: [{ type: 'text' as const, content: prompt }],
-          timestamp: new Date()
-        }
-      ];
+      const provider = this.getProvider();
+      const reservedTokens = provider.estimateTokens(this.buildMessages(prompt, [], attachments));
+      const messages = this.buildMessages(prompt, await this.fitConversation(history, model, reservedTokens), attachments);
 
       const selectedModel = model || this.defaultModel;
-      const response = await provider.sendMessage(messages, selectedModel);
+      let text = '';
+
+      if (onToken) {
+        for await (const delta of provider.streamMessage(messages, selectedModel, this.requestOptions(operation))) {
+          if (delta.type === 'text') {
+            text += delta.content as string;
+            onToken(delta.content as string);
+          }
+        }
+      } else {
+        const response = await provider.sendMessage(messages, selectedModel, this.requestOptions(operation));
+        // Skip thinking and tool blocks, only the text answers the prompt
+        text = response
+          .filter(item => item.type === 'text')
+          .map(item => item.content as string)
+          .join('');
+      }
       
       console.log('Memory usage after LLM call:', {
         rss: Math.round(process.memoryUsage().rss / 1024 / 1024) + 'MB',
@@ -103,22 +404,174 @@ class LLMFormatting implements LLMFormattingInterface {
         console.log('Garbage collection performed');
       }
 
-      return typeof response[0]?.content === 'string' ? response[0].content : 'No response from LLM';
+      return text || 'No response from LLM';
     } catch (error) {
       logger.error('LLM call failed:', error);
       throw new Error(`LLM operation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async formatResponseWithLLM(rawResponse: any, context: any, model?: string): Promise<string> {
-    const cacheKey = this.generateCacheKey('format_response', JSON.stringify(rawResponse), JSON.stringify(context));
+  // Offers the tools through the provider's native function calling and returns the raw reply
+  private async callLLMWithTools(
+    operation: string,
+    prompt: string,
+    tools: ToolDefinition[],
+    model?: string,
+    history: ChatMessage[] = [],
+    attachments: ChatContent[] = []
+  ): Promise<ChatContent[]> {
+    try {
+      const provider = this.getProvider();
+      const reservedTokens = provider.estimateTokens(this.buildMessages(prompt, [], attachments)) + provider.estimateTokens(JSON.stringify(tools));
+      const messages = this.buildMessages(prompt, await this.fitConversation(history, model, reservedTokens), attachments);
+      return await provider.sendMessage(messages, model || this.defaultModel, this.requestOptions(operation, { tools }));
+    } catch (error) {
+      logger.error('LLM tool call failed:', error);
+      throw new Error(`LLM operation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Asks for a JSON reply matching schema through the provider's structured output and
+  // validates it. An invalid reply is sent back once with the validation errors for the
+  // model to repair; if that also fails, StructuredOutputError is thrown
+  private async callLLMStructured<T>(
+    operation: string,
+    prompt: string,
+    schema: z.ZodType<T>,
+    model?: string,
+    history: ChatMessage[] = [],
+    attachments: ChatContent[] = []
+  ): Promise<T> {
+    const responseFormat = { name: operation, schema: toResponseSchema(schema) };
+    // Providers limited to JSON mode only learn the schema from the prompt
+    const structuredPrompt = `${prompt}\n\nRespond only with a JSON object matching this JSON schema:\n${JSON.stringify(responseFormat.schema)}`;
+    const selectedModel = model || this.defaultModel;
+
+    const request = async (messages: ChatMessage[], label: string): Promise<string> => {
+      try {
+        const response = await this.getProvider().sendMessage(messages, selectedModel, this.requestOptions(label, { responseFormat }));
+        return response
+          .filter(item => item.type === 'text')
+          .map(item => item.content as string)
+          .join('');
+      } catch (error) {
+        logger.error('LLM structured call failed:', error);
+        throw new Error(`LLM operation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    };
+
+    const reservedTokens = this.getProvider().estimateTokens(this.buildMessages(structuredPrompt, [], attachments));
+    const messages = this.buildMessages(structuredPrompt, await this.fitConversation(history, model, reservedTokens), attachments);
+
+    const reply = await request(messages, operation);
+    const parsed = parseStructuredReply(reply, schema);
+    if (parsed.success) {
+      return parsed.data;
+    }
+
+    logger.warn(`Invalid ${operation} response, asking the model to repair it`, { error: parsed.error });
+
+    const repairReply = await request([
+      ...messages,
+      { role: 'assistant', content: [{ type: 'text', content: reply }], timestamp: new Date() },
+      {
+        role: 'user',
+        content: [{ type: 'text', content: `That response is invalid:\n${parsed.error}\n\nRespond again with only the corrected JSON object.` }],
+        timestamp: new Date()
+      }
+    ], `${operation}_repair`);
+    const repaired = parseStructuredReply(repairReply, schema);
+    if (repaired.success) {
+      return repaired.data;
+    }
+
+    logger.error(`${operation} response failed validation after repair`, { error: repaired.error });
+    throw new StructuredOutputError(operation, repaired.error, repairReply);
+  }
+
+  private usageRecorder(operation: string) {
+    return UsageTracker.recorder(this.defaultProvider, operation);
+  }
+
+  private requestOptions(operation: string, options: ChatRequestOptions = {}): ChatRequestOptions {
+    return {
+      ...options,
+      onUsage: this.usageRecorder(operation),
+      generation: this.generationFor(operation),
+      signal: GenerationContext.signal()
+    };
+  }
+
+  // The user's settings shape the reply they read. Internal analyses only take the
+  // temperature, since a low token cap or a stop sequence would cut their JSON short.
+  // The system prompt is applied through buildSystemMessage instead
+  private generationFor(operation: string): GenerationOptions | undefined {
+    const generation = GenerationContext.current();
+    if (!generation) return undefined;
+
+    if (!REPLY_OPERATIONS.has(operation)) {
+      return { temperature: generation.temperature };
+    }
+    return {
+      temperature: generation.temperature,
+      maxTokens: generation.maxTokens,
+      stopSequences: generation.stopSequences
+    };
+  }
+
+  // Calls go through the router so a rate-limited or failing provider falls back along the chain.
+  // The router resolves the provider once per turn and reuses it for the turn's later calls
+  private getProvider() {
+    const provider = ProviderRouter.route(this.defaultProvider);
+    if (!provider) {
+      throw new Error(`Provider ${this.defaultProvider} not available`);
+    }
+    return provider;
+  }
+
+  // The conversation's system prompt preset, if one is attached, replaces the default persona
+  private buildSystemMessage(): ChatMessage {
+    return { 
+      role: 'system', 
+      content: [{ type: 'text', content: GenerationContext.current()?.systemPrompt?.trim() || DEFAULT_SYSTEM_PROMPT }],
+      timestamp: new Date()
+    };
+  }
+
+  private buildMessages(prompt: string, history: ChatMessage[] = [], attachments: ChatContent[] = []): ChatMessage[] {
+    return [
+      this.buildSystemMessage(),
+      ...history,
+      { 
+        role: 'user', 
+        content: [{ type: 'text', content: prompt }, ...attachments],
+        timestamp: new Date()
+      }
+    ];
+  }
+
+  async formatResponseWithLLM(
+    rawResponse: any,
+    context: any,
+    conversation: ChatMessage[],
+    model?: string,
+    onToken?: (token: string) => void
+  ): Promise<string> {
+    const cacheKey = this.generateCacheKey('format_response', JSON.stringify(rawResponse), JSON.stringify(context), this.conversationKey(conversation));
     
     // Check cache first
     const cached = await this.getCachedLLMResponse(cacheKey);
     if (cached) {
+      onToken?.(cached);
       return cached;
     }
 
+    // Large tool results are cut the same way as tool outputs in the conversation
+    const { text: rawText, omittedTokens } = this.truncateText(JSON.stringify(rawResponse, null, 2), this.getToolOutputLimit(model));
+    if (omittedTokens > 0) {
+      await this.recordCut('truncate_tool_output', context.toolUsed, { model, omittedTokens, keptTokens: this.getToolOutputLimit(model) });
+    }
+
     const prompt = `
           Format this tool response for the user in a clear, helpful way.
 
@@ -126,12 +579,12 @@ class LLMFormatting implements LLMFormattingInterface {
           Tool used: ${context.toolUsed || 'Unknown tool'}
 
           Raw tool response:
-          ${JSON.stringify(rawResponse, null, 2)}
+          ${rawText}
 
           Please format this response to be user-friendly and informative. Focus on what the user wanted to know and present the information clearly.
           `;
 
-    const formattedResponse = await this.callLLM(prompt, model);
+    const formattedResponse = await this.callLLM('format_response', prompt, model, onToken, this.splitConversation(conversation).history);
     
     // Cache the result
     await this.setCachedLLMResponse(cacheKey, formattedResponse);
@@ -141,13 +594,10 @@ class LLMFormatting implements LLMFormattingInterface {
 
 
 
-  async analyzeToolOutcome(toolName: string, parameters: any, model?: string): Promise<{
-    userExplanation: string;
-    safetyAnalysis: string;
-  }> {
-    const cacheKey = this.generateCacheKey('analyze_tool_outcome', toolName, JSON.stringify(parameters));
+  async analyzeToolOutcome(toolName: string, parameters: any, conversation: ChatMessage[], model?: string): Promise<ToolOutcomeAnalysis> {
+    const cacheKey = this.generateCacheKey('analyze_tool_outcome', toolName, JSON.stringify(parameters), this.conversationKey(conversation));
     
-    const cached = await this.getCachedLLMResponse(cacheKey);
+    const cached = await this.getCachedAnalysis(cacheKey, ToolOutcomeAnalysisSchema);
     if (cached) {
       return cached;
     }
@@ -158,76 +608,63 @@ class LLMFormatting implements LLMFormattingInterface {
         Tool: ${toolName}
         Parameters: ${JSON.stringify(parameters, null, 2)}
 
-        Please provide two separate analyses:
-
-        1. USER EXPLANATION: Explain what this tool will do in simple terms that a user can understand.
-
-        2. SAFETY ANALYSIS: Assess potential risks including:
-          - Will this tool write, modify, or delete data?
-          - Will this tool access sensitive information?
-          - Will this tool have system-level impact?
-          - Any other potential risks?
-
-        Format your response as:
-        USER EXPLANATION: [explanation]
-        SAFETY ANALYSIS: [safety assessment]
+        Explain what this tool will do in simple terms that a user can understand, and assess
+        its potential risks: will it write, modify or delete data, access sensitive information,
+        or have system-level impact? Note any other risks in the safety analysis.
         `;
 
-    const analysis = await this.callLLM(prompt, model);
-    
-    // Parse the response
-    const userExplanationMatch = analysis.match(/USER EXPLANATION:\s*([\s\S]*?)(?=\nSAFETY ANALYSIS:|$)/);
-    const safetyAnalysisMatch = analysis.match(/SAFETY ANALYSIS:\s*([\s\S]*?)$/);
-    
-    const result = {
-      userExplanation: userExplanationMatch?.[1]?.trim() || 'Unable to analyze tool outcome',
-      safetyAnalysis: safetyAnalysisMatch?.[1]?.trim() || 'Unable to assess safety'
-    };
+    // The conversation shows what the user asked for, which matters when judging the call
+    const result = await this.callLLMStructured('analyze_tool_outcome', prompt, ToolOutcomeAnalysisSchema, model, conversation);
     
     await this.setCachedLLMResponse(cacheKey, result);
     
     return result;
   }
 
-  async selectTool(userRequest: string, availableTools: any[], model?: string): Promise<{
+  async selectTool(conversation: ChatMessage[], availableTools: any[], model?: string): Promise<{
     selectedTool: string | null;
+    parameters: any;
     reasoning: string;
   }> {
-    const cacheKey = this.generateCacheKey('select_tool', userRequest, JSON.stringify(availableTools));
+    const { history, userRequest, attachments } = this.splitConversation(conversation);
+    const cacheKey = this.generateCacheKey('select_tool', this.conversationKey(conversation), JSON.stringify(availableTools));
     
     const cached = await this.getCachedLLMResponse(cacheKey);
     if (cached) {
       return cached;
     }
 
-    const toolsList = availableTools.map(tool => 
-      `- ${tool.name}: ${tool.description}`
-    ).join('\n');
+    const tools: ToolDefinition[] = availableTools.map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: tool.inputSchema || { type: 'object', properties: {} }
+    }));
 
     const prompt = `
-        Determine if this user request needs tools or can be answered conversationally.
+        Decide whether this user request needs one of the available tools.
 
         User Request: "${userRequest}"
 
-        Available Tools:
-        ${toolsList}
-
-        IMPORTANT: Only select a tool if the request clearly requires external access (files, system, data, etc.).
-        For general questions, conversation, or things you can answer with knowledge, respond with "none".
-
-        Format your response as:
-        SELECTED TOOL: [tool name or "none"]
-        REASONING: [explanation of your decision]
+        IMPORTANT: Only call a tool if the request clearly requires external access (files, system, data, etc.).
+        Fill in every argument the tool needs from the user's request and the conversation so far.
+        For general questions, conversation, or things you can answer with knowledge, do not call a tool
+        and briefly explain why instead.
         `;
 
-    const selection = await this.callLLM(prompt, model);
-    
-    const selectedToolMatch = selection.match(/SELECTED TOOL:\s*([\s\S]*?)(?=\nREASONING:|$)/);
-    const reasoningMatch = selection.match(/REASONING:\s*([\s\S]*?)$/);
+    const response = await this.callLLMWithTools('select_tool', prompt, tools, model, history, attachments);
+
+    // The model answers with a structured tool call carrying typed arguments
+    const toolCall = response.find(item => item.type === 'tool')?.content as ToolCall | undefined;
+    const reasoning = response
+      .filter(item => item.type === 'text')
+      .map(item => item.content as string)
+      .join('\n')
+      .trim();
     
     const result = {
-      selectedTool: selectedToolMatch?.[1]?.trim() || null,
-      reasoning: reasoningMatch?.[1]?.trim() || 'Unable to determine reasoning'
+      selectedTool: toolCall?.name || null,
+      parameters: toolCall?.input || {},
+      reasoning: reasoning || (toolCall ? `Selected ${toolCall.name}` : 'No tool needed for this request')
     };
     
     await this.setCachedLLMResponse(cacheKey, result);
@@ -241,15 +678,12 @@ class LLMFormatting implements LLMFormattingInterface {
     userFeedback: string,
     originalTool: string,
     originalParameters: any,
+    conversation: ChatMessage[],
     model?: string
-  ): Promise<{
-    changes: any;
-    reasoning: string;
-    newParameters: any;
-  }> {
-    const cacheKey = this.generateCacheKey('analyze_modifications', userFeedback, originalTool, JSON.stringify(originalParameters));
+  ): Promise<ModificationAnalysis> {
+    const cacheKey = this.generateCacheKey('analyze_modifications', userFeedback, originalTool, JSON.stringify(originalParameters), this.conversationKey(conversation));
     
-    const cached = await this.getCachedLLMResponse(cacheKey);
+    const cached = await this.getCachedAnalysis(cacheKey, ModificationAnalysisSchema);
     if (cached) {
       return cached;
     }
@@ -262,49 +696,22 @@ class LLMFormatting implements LLMFormattingInterface {
            User Feedback: ${userFeedback}
 
            Please analyze what changes the user wants and provide the updated parameters.
-
-           Format your response as:
-           CHANGES: [JSON object describing the modifications needed]
-           REASONING: [explanation of what the user wants changed and why]
-           NEW_PARAMETERS: [JSON object with the updated parameters that should be used]
            `;
 
-    const analysis = await this.callLLM(prompt, model);
-    
-    const changesMatch = analysis.match(/CHANGES:\s*(\{[\s\S]*?\})/);
-    const reasoningMatch = analysis.match(/REASONING:\s*([\s\S]*?)(?=\nNEW_PARAMETERS:|$)/);
-    const newParametersMatch = analysis.match(/NEW_PARAMETERS:\s*(\{[\s\S]*?\})/);
-    
-    let changes = {};
-    let newParameters = originalParameters; // Default to original parameters
-    
-    try {
-      if (changesMatch?.[1]) {
-        changes = JSON.parse(changesMatch[1]);
-      }
-      if (newParametersMatch?.[1]) {
-        newParameters = JSON.parse(newParametersMatch[1]);
-      }
-    } catch (error) {
-      logger.error('Failed to parse modification data:', error);
-    }
-    
-    const result = {
-      changes,
-      reasoning: reasoningMatch?.[1]?.trim() || 'Unable to analyze modifications',
-      newParameters
-    };
+    const result = await this.callLLMStructured('analyze_modifications', prompt, ModificationAnalysisSchema, model, conversation);
     
     await this.setCachedLLMResponse(cacheKey, result);
     
     return result;
   }
 
-  async getConversationalResponse(userRequest: string, model?: string): Promise<string> {
-    const cacheKey = this.generateCacheKey('conversational_response', userRequest);
+  async getConversationalResponse(conversation: ChatMessage[], model?: string, onToken?: (token: string) => void): Promise<string> {
+    const { history, userRequest, attachments } = this.splitConversation(conversation);
+    const cacheKey = this.generateCacheKey('conversational_response', this.conversationKey(conversation));
     
     const cached = await this.getCachedLLMResponse(cacheKey);
     if (cached) {
+      onToken?.(cached);
       return cached;
     }
 
@@ -317,20 +724,18 @@ class LLMFormatting implements LLMFormattingInterface {
       Respond naturally as if you're having a conversation with a friend.
     `;
 
-    const response = await this.callLLM(prompt, model);
+    const response = await this.callLLM('conversational_response', prompt, model, onToken, history, attachments);
     
     await this.setCachedLLMResponse(cacheKey, response);
     
     return response;
   }
 
-  async decideIfToolsNeeded(userRequest: string, model?: string): Promise<{
-    needsTools: boolean;
-    reasoning: string;
-  }> {
-    const cacheKey = this.generateCacheKey('decide_tools_needed', userRequest);
+  async decideIfToolsNeeded(conversation: ChatMessage[], model?: string): Promise<ToolsNeededDecision> {
+    const { history, userRequest, attachments } = this.splitConversation(conversation);
+    const cacheKey = this.generateCacheKey('decide_tools_needed', this.conversationKey(conversation));
     
-    const cached = await this.getCachedLLMResponse(cacheKey);
+    const cached = await this.getCachedAnalysis(cacheKey, ToolsNeededDecisionSchema);
     if (cached) {
       return cached;
     }
@@ -345,39 +750,17 @@ class LLMFormatting implements LLMFormattingInterface {
       - Does this require accessing files, databases, or external systems?
       - Is this a simple question that doesn't need tools?
       - Does this require real-time data or system access?
-
-      Format your response as:
-      NEEDS_TOOLS: [true/false]
-      REASONING: [explanation of your decision]
     `;
 
-    const decision = await this.callLLM(prompt, model);
-    
-    const needsToolsMatch = decision.match(/NEEDS_TOOLS:\s*(true|false)/i);
-    const reasoningMatch = decision.match(/REASONING:\s*([\s\S]*?)$/);
-    
-    const result = {
-      needsTools: needsToolsMatch?.[1]?.toLowerCase() === 'true',
-      reasoning: reasoningMatch?.[1]?.trim() || 'Unable to determine if tools are needed'
-    };
+    const result = await this.callLLMStructured('decide_tools_needed', prompt, ToolsNeededDecisionSchema, model, history, attachments);
     
     await this.setCachedLLMResponse(cacheKey, result);
     
     return result;
   }
 
-  async analyzeRequest(userRequest: string, model?: string): Promise<{
-    needsTools: boolean;
-    response?: string;
-    reasoning?: string;
-  }> {
-    const cacheKey = this.generateCacheKey('analyze_request', userRequest);
-    
-    // Temporarily disable caching to test for memory leaks
-    // const cached = await this.getCachedLLMResponse(cacheKey);
-    // if (cached) {
-    //   return cached;
-    // }
+  async analyzeRequest(conversation: ChatMessage[], model?: string): Promise<RequestAnalysis> {
+    const { history, userRequest, attachments } = this.splitConversation(conversation);
 
     console.log('Memory usage before analyzeRequest:', {
       rss: Math.round(process.memoryUsage().rss / 1024 / 1024) + 'MB',
@@ -398,30 +781,17 @@ class LLMFormatting implements LLMFormattingInterface {
       If this requires external access (files, system, data, etc.):
       - Indicate that tools are needed
       - Explain what kind of access is required
-
-      Format your response as:
-      NEEDS_TOOLS: [true/false]
-      RESPONSE: [your conversational response if no tools needed]
-      REASONING: [explanation if tools are needed]
     `;
 
-    const analysis = await this.callLLM(prompt, model);
-    
-    const needsToolsMatch = analysis.match(/NEEDS_TOOLS:\s*(true|false)/i);
-    const responseMatch = analysis.match(/RESPONSE:\s*([\s\S]*?)(?=\nREASONING:|$)/);
-    const reasoningMatch = analysis.match(/REASONING:\s*([\s\S]*?)$/);
-    
-    const needsTools = needsToolsMatch?.[1]?.toLowerCase() === 'true';
+    // Earlier turns let follow-ups like "do the same for the other folder" be understood
+    const analysis = await this.callLLMStructured('analyze_request', prompt, RequestAnalysisSchema, model, history, attachments);
     
     const result = {
-      needsTools,
-      response: needsTools ? undefined : responseMatch?.[1]?.trim() || 'I\'m here to help!',
-      reasoning: needsTools ? reasoningMatch?.[1]?.trim() : undefined
+      needsTools: analysis.needsTools,
+      response: analysis.needsTools ? undefined : analysis.response,
+      reasoning: analysis.needsTools ? analysis.reasoning : undefined
     };
     
-    // Temporarily disable caching
-    // await this.setCachedLLMResponse(cacheKey, result);
-    
     console.log('Memory usage after analyzeRequest:', {
       rss: Math.round(process.memoryUsage().rss / 1024 / 1024) + 'MB',
       heapUsed: Math.round(process.memoryUsage().heapUsed / 1024 / 1024) + 'MB',
@@ -430,7 +800,41 @@ class LLMFormatting implements LLMFormattingInterface {
     
     return result;
   }
+
+  // One model turn of the agent loop: the conversation so far (including earlier tool
+  // calls and their results) goes to the model together with the tools it may call
+  async runAgentStep(
+    conversation: ChatMessage[],
+    tools: ToolDefinition[],
+    model?: string,
+    onDelta?: (delta: ChatStreamDelta) => void
+  ): Promise<ChatContent[]> {
+    try {
+      const provider = this.getProvider();
+      const reservedTokens = provider.estimateTokens([this.buildSystemMessage()]) + provider.estimateTokens(JSON.stringify(tools));
+      const messages = [this.buildSystemMessage(), ...await this.fitConversation(conversation, model, reservedTokens)];
+      const selectedModel = model || this.defaultModel;
+
+      if (!onDelta) {
+        return await provider.sendMessage(messages, selectedModel, this.requestOptions('agent_step', { tools }));
+      }
+
+      let content: ChatContent[] = [];
+      for await (const delta of provider.streamMessage(messages, selectedModel, this.requestOptions('agent_step', { tools }))) {
+        content = applyDelta(content, delta);
+        onDelta(delta);
+      }
+      return content;
+    } catch (error) {
+      logger.error('Agent step failed:', error);
+      throw new Error(`LLM operation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  countTokens(conversation: ChatMessage[]): number {
+    return this.getProvider().estimateTokens(conversation);
+  }
 }
 
 export default LLMFormattingInterface;
-export { LLMFormatting }; 
\ No newline at end of file
+export { LLMFormatting, StructuredOutputError, parseStructuredReply };
\ No newline at end of file
@@ -2,6 +2,10 @@ export interface ToolCall {
   id: string;
   name: string;
   input: any;
+  // Filled in once the tool has run, so the call can be replayed to the model
+  status?: 'completed' | 'failed';
+  result?: unknown;
+  error?: string;
 }
 
 export interface ImageData {
@@ -11,20 +15,152 @@ export interface ImageData {
 }
 
 export interface ChatContent {
-  type: 'text' | 'image' | 'tool' | 'thinking';
+  type: 'text' | 'image' | 'tool' | 'thinking' | 'error';
   content: string | ImageData | ToolCall;
+  // Name of the file or MCP resource a text block was read from. Attached text reaches
+  // the model but is not part of the request the user typed
+  attachment?: string;
+  // Anthropic's signature for a thinking block, or the encrypted contents of a redacted one.
+  // Claude needs them sent back unchanged before the tool calls that followed the thinking
+  signature?: string;
+  redactedThinking?: string;
 }
 
 export interface ChatMessage {
   role: 'user' | 'assistant' | 'system';
   content: ChatContent[];
   timestamp: Date;
+  // Tokens and cost spent producing an assistant message
+  usage?: RequestUsage;
+  // Provider and model that produced the reply, which may be a fallback
+  answeredBy?: AnsweredBy;
+}
+
+export interface AnsweredBy {
+  provider: string;
+  model: string;
+}
+
+// Tool exposed to the model through the vendor's native function calling
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+}
+
+export interface ChatRequestOptions {
+  tools?: ToolDefinition[];
+  // Called once per vendor call with the tokens the vendor billed for it
+  onUsage?: (usage: TokenUsage) => void;
+  // Ask for a JSON reply matching this JSON schema, using the vendor's structured output
+  responseFormat?: ResponseFormat;
+  generation?: GenerationOptions;
+  // Aborts the vendor request when the user leaves the chat turn
+  signal?: AbortSignal;
+}
+
+// Sampling settings chosen in the chat UI; unset fields keep the vendor's defaults
+export interface GenerationOptions {
+  temperature?: number;
+  // Caps the reply length, within the model's own output limit
+  maxTokens?: number;
+  stopSequences?: string[];
+  // Replaces the default assistant persona
+  systemPrompt?: string;
+}
+
+// A named system prompt the user saved for reuse across conversations
+export interface SystemPromptPreset {
+  name: string;
+  prompt: string;
+}
+
+export interface ResponseFormat {
+  // Identifier for the schema; some vendors require [a-zA-Z0-9_-]
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+// Tokens billed for one vendor call; model is the registry name the call resolved to
+export interface TokenUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  // Set by ProviderRouter when the call was answered by a fallback rather than the requested provider
+  provider?: string;
+}
+
+// One priced vendor call, labelled with the LLMFormatting operation that made it
+export interface UsageRecord extends TokenUsage {
+  provider: string;
+  operation: string;
+  cost: number;
+}
+
+export interface UsageSummary {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+// Everything a single /api/chat request spent
+export interface RequestUsage extends UsageSummary {
+  records: UsageRecord[];
+}
+
+// Incremental piece of an assistant reply: text and thinking arrive as token
+// fragments, tool calls are announced on start and completed on finish
+export interface ChatStreamDelta {
+  type: 'text' | 'thinking' | 'tool_start' | 'tool_finish' | 'error';
+  content: string | ToolCall;
+  // Thinking only; the signature comes in its own delta once the block is complete
+  signature?: string;
+  redactedThinking?: string;
+}
+
+// Token limits of a model: contextWindow covers input and output together
+export interface ModelSpec {
+  contextWindow: number;
+  maxOutputTokens: number;
+  capabilities: ModelCapabilities;
+  // USD per million tokens; unpriced models are counted but cost nothing
+  pricing?: { inputPerMillion: number; outputPerMillion: number };
+}
+
+export interface ModelCapabilities {
+  // Accepts image input
+  vision: boolean;
+  // Supports native function calling
+  tools: boolean;
+  // Returns reasoning as thinking blocks
+  thinking: boolean;
+  streaming: boolean;
+  // Can constrain replies to a JSON schema; otherwise only a generic JSON mode is used
+  structuredOutput: boolean;
+}
+
+// One row of the /api/models catalog
+export interface ModelCatalogEntry extends ModelSpec {
+  model: string;
+}
+
+export interface ProviderCatalogEntry {
+  name: string;
+  available: boolean;
+  models: ModelCatalogEntry[];
 }
 
 export interface ChatProvider {
   name: string;
   models: string[];
-  sendMessage(messages: ChatMessage[], model: string): Promise<ChatContent[]>;
+  sendMessage(messages: ChatMessage[], model: string, options?: ChatRequestOptions): Promise<ChatContent[]>;
+  streamMessage(messages: ChatMessage[], model: string, options?: ChatRequestOptions): AsyncIterable<ChatStreamDelta>;
+  // Models the provider can serve right now; may query the vendor
+  listModels(): Promise<string[]>;
+  getModelSpec(model: string): ModelSpec;
+  // Approximate token count for text or messages, using the provider's tokenizer ratio
+  estimateTokens(input: string | ChatMessage[]): number;
   isAvailable(): boolean;
 }
 
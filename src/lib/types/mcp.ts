@@ -0,0 +1,100 @@
+import type { Implementation, ServerCapabilities } from '@modelcontextprotocol/sdk/types.js';
+
+interface MCPServerConfigBase {
+  // Short, URL-safe ID used by the API routes and discovery caches
+  id: string;
+  name: string;
+  enabled: boolean;
+  // Per-request limit, also applied to the connection handshake
+  timeoutMs?: number;
+}
+
+// OAuth 2.1 per the MCP authorization spec. Without a client ID the client registers
+// itself dynamically with the authorization server
+export interface MCPOAuthSettings {
+  clientId?: string;
+  clientSecret?: string;
+  clientName?: string;
+  scope?: string;
+}
+
+// Remote server reached over Streamable HTTP
+export interface MCPHttpServerConfig extends MCPServerConfigBase {
+  transport: 'http';
+  url: string;
+  headers?: Record<string, string>;
+  // Sent as "Authorization: Bearer <token>"
+  bearerToken?: string;
+  oauth?: MCPOAuthSettings;
+}
+
+// Local executable spawned as a child process and spoken to over stdin/stdout
+export interface MCPStdioServerConfig extends MCPServerConfigBase {
+  transport: 'stdio';
+  command: string;
+  args: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+}
+
+export type MCPServerConfig = MCPHttpServerConfig | MCPStdioServerConfig;
+
+export type MCPConnectionStatus = 'idle' | 'connecting' | 'connected' | 'unauthorized' | 'error';
+
+export interface MCPConnectionState {
+  status: MCPConnectionStatus;
+  sessionId?: string;
+  lastConnectedAt?: number;
+  lastError?: string;
+  // Where the user approves access to an OAuth-protected server
+  authorizationUrl?: string;
+  // Reported by the server during the initialize handshake
+  serverInfo?: Implementation;
+  capabilities?: ServerCapabilities;
+}
+
+// What /api/mcp-servers exposes about a server; tokens, headers, env values and the
+// session ID are left out
+export interface MCPServerSummary {
+  id: string;
+  name: string;
+  transport: MCPServerConfig['transport'];
+  enabled: boolean;
+  // URL for HTTP servers, the command line for stdio servers, with placeholders as written
+  target: string;
+  timeoutMs?: number;
+  state: Omit<MCPConnectionState, 'sessionId'>;
+}
+
+export interface MCPPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+// A prompt template offered by an MCP server, as listed by /api/mcp-prompts
+export interface MCPPromptSummary {
+  server: string;
+  name: string;
+  title?: string;
+  description?: string;
+  arguments: MCPPromptArgument[];
+}
+
+// A resource offered by an MCP server, as listed by /api/mcp-resources
+export interface MCPResourceSummary {
+  server: string;
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+}
+
+// One part of a resource as returned by /api/mcp-read-resource: text, or base64 bytes in blob
+export interface MCPResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
@@ -1,10 +1,51 @@
-import { ChatMessage, ChatProvider, ChatContent } from '@/lib/types/chat';
+import {
+  ChatMessage,
+  ChatProvider,
+  ChatContent,
+  ChatRequestOptions,
+  ChatStreamDelta,
+  ImageData,
+  ModelSpec,
+  ToolCall
+} from '@/lib/types/chat';
+import { getModelSpec } from './modelRegistry';
+import { describeImages, latestUserHasImages } from '@/app/utils/chatContent';
+
+// One model turn of an assistant message: its thinking, its text and the tool calls it made
+interface ToolTurn {
+  thinking: ChatContent[];
+  text: string;
+  toolCalls: ToolCall[];
+}
 
 export abstract class BaseProvider implements ChatProvider {
   abstract name: string;
   abstract models: string[];
 
-  abstract sendMessage(messages: ChatMessage[], model: string): Promise<ChatContent[]>;
+  // Average characters per token for the vendor's tokenizer, and the fixed
+  // per-message cost of role markers and separators
+  protected charsPerToken = 4;
+  protected tokensPerMessage = 4;
+  // Flat cost charged for an image part, whatever its size
+  protected tokensPerImage = 1000;
+
+  abstract sendMessage(messages: ChatMessage[], model: string, options?: ChatRequestOptions): Promise<ChatContent[]>;
+
+  // Providers without native streaming emit the complete reply as a single set of deltas
+  async *streamMessage(messages: ChatMessage[], model: string, options?: ChatRequestOptions): AsyncIterable<ChatStreamDelta> {
+    const content = await this.sendMessage(messages, model, options);
+
+    for (const item of content) {
+      if (item.type === 'tool') {
+        yield { type: 'tool_start', content: item.content as ToolCall };
+        yield { type: 'tool_finish', content: item.content as ToolCall };
+      } else if (item.type === 'thinking') {
+        yield { type: 'thinking', content: item.content as string, signature: item.signature, redactedThinking: item.redactedThinking };
+      } else if (item.type === 'text' || item.type === 'error') {
+        yield { type: item.type, content: item.content as string };
+      }
+    }
+  }
   
   isAvailable(): boolean {
     try {
@@ -17,6 +58,41 @@ export abstract class BaseProvider implements ChatProvider {
 
   protected abstract getApiKey(): string | null;
 
+  async listModels(): Promise<string[]> {
+    return this.models;
+  }
+
+  getModelSpec(model: string): ModelSpec {
+    return getModelSpec(this.name, this.resolveModel(model));
+  }
+
+  estimateTokens(input: string | ChatMessage[]): number {
+    if (typeof input === 'string') {
+      return Math.ceil(input.length / this.charsPerToken);
+    }
+
+    return input.reduce((total, msg) => total + this.tokensPerMessage + msg.content.reduce((sum, item) => {
+      switch (item.type) {
+        case 'image':
+          return sum + this.tokensPerImage;
+        case 'tool': {
+          const toolCall = item.content as ToolCall;
+          return sum + this.estimateTokens(JSON.stringify(toolCall.input ?? {}) + this.toolResultText(toolCall));
+        }
+        default:
+          return sum + this.estimateTokens(typeof item.content === 'string' ? item.content : JSON.stringify(item.content));
+      }
+    }, 0), 0);
+  }
+
+  // 'auto' and 'default' come from the UI when the user hasn't picked a specific model
+  protected resolveModel(model: string): string {
+    if (!model || model === 'auto' || model === 'default') {
+      return this.models[0];
+    }
+    return model;
+  }
+
   protected formatMessages(messages: ChatMessage[]): any[] {
     return messages.map(msg => ({
       role: msg.role,
@@ -24,9 +100,92 @@ export abstract class BaseProvider implements ChatProvider {
     }));
   }
 
+  // Assistant messages from the agent loop interleave text with tool calls that already ran.
+  // Vendors expect every round of calls to be followed by its results, so split into rounds.
+  protected toToolTurns(content: ChatContent[]): ToolTurn[] {
+    const turns: ToolTurn[] = [];
+    let current: ToolTurn = { thinking: [], text: '', toolCalls: [] };
+
+    for (const item of content) {
+      // Text or thinking after a round of tool calls belongs to the next model turn
+      if ((item.type === 'text' || item.type === 'thinking') && current.toolCalls.length > 0) {
+        turns.push(current);
+        current = { thinking: [], text: '', toolCalls: [] };
+      }
+
+      if (item.type === 'thinking') {
+        current.thinking.push(item);
+      } else if (item.type === 'text') {
+        current.text += (current.text ? '\n' : '') + (item.content as string);
+      } else if (item.type === 'tool') {
+        current.toolCalls.push(item.content as ToolCall);
+      }
+    }
+
+    if (current.text || current.toolCalls.length > 0) {
+      turns.push(current);
+    }
+
+    return turns;
+  }
+
+  protected toolResultText(toolCall: ToolCall): string {
+    if (toolCall.status === 'failed') {
+      return `Error: ${toolCall.error || 'Tool execution failed'}`;
+    }
+    if (toolCall.result === undefined) {
+      return 'Tool was not executed';
+    }
+    return typeof toolCall.result === 'string' ? toolCall.result : JSON.stringify(toolCall.result);
+  }
+
+  // The model may emit malformed JSON for tool arguments, or a stream may stop partway
+  // through them (e.g. at max_tokens); keep the raw string rather than failing
+  protected parseArguments(args: string): unknown {
+    try {
+      return args ? JSON.parse(args) : {};
+    } catch {
+      return args;
+    }
+  }
+
+  // Images go to the vendor as native vision input, so a model without vision is refused
+  // images attached to the message it answers, rather than silently answering without
+  // seeing them. Images from earlier turns are replaced with a note so the conversation
+  // can carry on with a text-only model
+  protected prepareImages(messages: ChatMessage[], model: string): ChatMessage[] {
+    if (this.getModelSpec(model).capabilities.vision) return messages;
+
+    if (latestUserHasImages(messages)) {
+      throw new Error(
+        `Model ${this.resolveModel(model)} (${this.name}) does not accept images. Choose a vision-capable model or remove the attached images.`
+      );
+    }
+    return describeImages(messages);
+  }
+
+  protected getImages(content: ChatContent[]): ImageData[] {
+    return content
+      .filter(item => item.type === 'image')
+      .map(item => item.content as ImageData)
+      .filter(image => image.url || image.base64);
+  }
+
+  // Remote images keep their URL, attached ones become data: URLs
+  protected toImageUrl(image: ImageData): string {
+    return image.url || `data:${image.mimeType};base64,${image.base64}`;
+  }
+
+  // The request's system prompt goes ahead of any system messages in the conversation
+  protected withSystemPrompt(messages: ChatMessage[], options?: ChatRequestOptions): ChatMessage[] {
+    const systemPrompt = options?.generation?.systemPrompt?.trim();
+    if (!systemPrompt) return messages;
+
+    return [{ role: 'system', content: [{ type: 'text', content: systemPrompt }], timestamp: new Date() }, ...messages];
+  }
+
+  // Text only; providers add images as their own vision parts (see getImages)
   protected flattenContent(content: ChatContent[]): string {
-    // For now, we'll flatten to text for compatibility
-    // This can be enhanced later to handle images and other content types
     return content
       .filter(item => item.type === 'text')
       .map(item => item.content as string)
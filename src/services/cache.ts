@@ -1,5 +1,6 @@
 import Redis from 'ioredis';
 import { ChromaClient, Collection } from 'chromadb';
+import { UsageSummary } from '@/lib/types/chat';
 
 // Cache configuration
 const CACHE_TTL = {
@@ -7,6 +8,9 @@ const CACHE_TTL = {
   LLM_ANALYSIS: 30 * 60,       // 30 minutes
   SERVER_STATUS: 5 * 60,        // 5 minutes
   TOOL_DISCOVERY: 10 * 60,     // 10 minutes
+  EXECUTION_STATE: 60 * 60,    // 1 hour
+  USAGE_DAILY: 90 * 24 * 60 * 60, // 90 days
+  OAUTH_PENDING: 10 * 60,      // 10 minutes to finish an authorization
   USER_SESSION: 24 * 60 * 60   // 24 hours
 };
 
@@ -16,8 +20,13 @@ const REDIS_KEYS = {
   LLM_ANALYSIS: 'llm:analysis:',
   SERVER_STATUS: 'server:status:',
   TOOL_DISCOVERY: 'tool:discovery:',
+  EXECUTION_STATE: 'execution:',
+  USAGE_SESSION: 'usage:session:',
+  USAGE_DAILY: 'usage:day:',
   USER_SESSION: 'user:session:',
-  CACHE_TIMESTAMP: 'cache:timestamp:'
+  CACHE_TIMESTAMP: 'cache:timestamp:',
+  MCP_OAUTH: 'mcp:oauth:',
+  MCP_OAUTH_STATE: 'mcp:oauth-state:'
 };
 
 export class CacheService {
@@ -136,6 +145,119 @@ export class CacheService {
     return data ? JSON.parse(data) : null;
   }
 
+  /**
+   * Store the state of a tool execution (completed, cancelled, ...)
+   */
+  async setExecutionState(executionId: string, state: string, data: unknown): Promise<void> {
+    const key = `${REDIS_KEYS.EXECUTION_STATE}${executionId}:${state}`;
+    await this.redis.setex(key, CACHE_TTL.EXECUTION_STATE, JSON.stringify(data));
+  }
+
+  /**
+   * Get the stored data for a tool execution state
+   */
+  async getExecutionState(executionId: string, state: string): Promise<Record<string, unknown> | null> {
+    const key = `${REDIS_KEYS.EXECUTION_STATE}${executionId}:${state}`;
+    const data = await this.redis.get(key);
+    return data ? JSON.parse(data) : null;
+  }
+
+  /**
+   * Store OAuth data for an MCP server (tokens, client registration, PKCE verifier).
+   * Data for a pending authorization expires; the rest is kept until it is deleted
+   */
+  async setOAuthData(server: string, field: string, data: unknown, pending: boolean = false): Promise<void> {
+    const key = `${REDIS_KEYS.MCP_OAUTH}${server}:${field}`;
+    if (pending) {
+      await this.redis.setex(key, CACHE_TTL.OAUTH_PENDING, JSON.stringify(data));
+    } else {
+      await this.redis.set(key, JSON.stringify(data));
+    }
+  }
+
+  /**
+   * Get OAuth data for an MCP server
+   */
+  async getOAuthData<T>(server: string, field: string): Promise<T | null> {
+    const key = `${REDIS_KEYS.MCP_OAUTH}${server}:${field}`;
+    const data = await this.redis.get(key);
+    return data ? JSON.parse(data) : null;
+  }
+
+  /**
+   * Delete OAuth data for an MCP server
+   */
+  async deleteOAuthData(server: string, fields: string[]): Promise<void> {
+    if (fields.length > 0) {
+      await this.redis.del(...fields.map(field => `${REDIS_KEYS.MCP_OAUTH}${server}:${field}`));
+    }
+  }
+
+  /**
+   * Remember which MCP server an authorization request's state belongs to
+   */
+  async setOAuthState(state: string, server: string): Promise<void> {
+    const key = `${REDIS_KEYS.MCP_OAUTH_STATE}${state}`;
+    await this.redis.setex(key, CACHE_TTL.OAUTH_PENDING, server);
+  }
+
+  /**
+   * Look up and consume an authorization request's state, so a callback can't be replayed
+   */
+  async takeOAuthState(state: string): Promise<string | null> {
+    const key = `${REDIS_KEYS.MCP_OAUTH_STATE}${state}`;
+    const server = await this.redis.get(key);
+    if (server) {
+      await this.redis.del(key);
+    }
+    return server;
+  }
+
+  /**
+   * Add a request's token usage and cost to the session and daily totals
+   */
+  async addUsage(sessionId: string, day: string, usage: UsageSummary): Promise<void> {
+    const sessionKey = `${REDIS_KEYS.USAGE_SESSION}${sessionId}`;
+    const dailyKey = `${REDIS_KEYS.USAGE_DAILY}${day}`;
+
+    const pipeline = this.redis.pipeline();
+    for (const key of [sessionKey, dailyKey]) {
+      pipeline.hincrby(key, 'calls', usage.calls);
+      pipeline.hincrby(key, 'inputTokens', usage.inputTokens);
+      pipeline.hincrby(key, 'outputTokens', usage.outputTokens);
+      pipeline.hincrbyfloat(key, 'cost', usage.cost);
+    }
+    pipeline.expire(sessionKey, CACHE_TTL.USER_SESSION);
+    pipeline.expire(dailyKey, CACHE_TTL.USAGE_DAILY);
+    await pipeline.exec();
+  }
+
+  /**
+   * Get the usage totals for a session
+   */
+  async getSessionUsage(sessionId: string): Promise<UsageSummary | null> {
+    return this.readUsage(`${REDIS_KEYS.USAGE_SESSION}${sessionId}`);
+  }
+
+  /**
+   * Get the usage totals for a day (YYYY-MM-DD, UTC)
+   */
+  async getDailyUsage(day: string): Promise<UsageSummary | null> {
+    return this.readUsage(`${REDIS_KEYS.USAGE_DAILY}${day}`);
+  }
+
+  private async readUsage(key: string): Promise<UsageSummary | null> {
+    const data = await this.redis.hgetall(key);
+    if (Object.keys(data).length === 0) return null;
+
+    return {
+      calls: parseInt(data.calls || '0'),
+      inputTokens: parseInt(data.inputTokens || '0'),
+      outputTokens: parseInt(data.outputTokens || '0'),
+      cost: parseFloat(data.cost || '0')
+    };
+  }
+
   /**
    * Clear cache for a specific server
    */
@@ -205,6 +327,21 @@ export class CacheService {
     }
   }
 
+  /**
+   * Remove the tool embeddings of a server that was removed or disabled
+   */
+  async removeToolEmbeddings(server: string): Promise<void> {
+    if (!this.toolsCollection) {
+      return;
+    }
+
+    try {
+      await this.toolsCollection.delete({ where: { server } });
+    } catch (error) {
+      console.error('Failed to remove tool embeddings:', error);
+    }
+  }
+
   /**
    * Find similar tools using semantic search
    */
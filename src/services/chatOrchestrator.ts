@@ -0,0 +1,98 @@
+import { AnsweredBy, ChatMessage, ChatContent, ChatStreamDelta, GenerationOptions } from '@/lib/types/chat';
+import { Logger } from "@/app/utils/logger";
+import { DynamicFlow } from '@/lib/interfaces/DynamicFlowInterface';
+import { DynamicDiscovery } from '@/lib/interfaces/DynamicDiscoveryInterface';
+import { DynamicExecution } from '@/lib/interfaces/DynamicExecutionInterface';
+import { LLMFormatting } from '@/lib/interfaces/LLMFormattingInterface';
+import { Transparency } from '@/lib/interfaces/TransparencyInterface';
+import { Consent } from '@/lib/interfaces/ConsentInterface';
+import { getLatestUserText, getLatestUserAttachments } from '@/app/utils/chatContent';
+import { GenerationContext } from './generationContext';
+import { ProviderRouter } from './providerRouter';
+
+const logger = new Logger("ChatOrchestrator");
+
+// Sits above the providers: providers only talk to their vendor API,
+// while tool discovery, consent and execution are driven from here.
+export class ChatOrchestrator {
+  private static flows: Map<string, DynamicFlow> = new Map();
+
+  static getFlow(providerName: string): DynamicFlow {
+    if (!this.flows.has(providerName)) {
+      // Initialize DynamicFlow with all dependencies, using the selected provider for every LLM call.
+      // LLMFormatting shares the trace so context-window cuts are logged alongside tool decisions
+      const transparency = new Transparency();
+      this.flows.set(providerName, new DynamicFlow(
+        new DynamicDiscovery(),
+        new DynamicExecution(),
+        new LLMFormatting(providerName, transparency),
+        transparency,
+        new Consent()
+      ));
+    }
+    return this.flows.get(providerName)!;
+  }
+
+  static async sendMessage(
+    providerName: string,
+    messages: ChatMessage[],
+    model: string,
+    generation?: GenerationOptions
+  ): Promise<{ content: ChatContent[]; answeredBy?: AnsweredBy }> {
+    try {
+      if (!getLatestUserText(messages) && getLatestUserAttachments(messages).length === 0) {
+        return {
+          content: [{ type: 'text', content: 'I couldn\'t understand your request. Please try again.' }]
+        };
+      }
+
+      const { result, route } = await GenerationContext.run(generation, () =>
+        this.getFlow(providerName).processUserRequest(messages, model)
+      );
+      return { content: result, answeredBy: ProviderRouter.answeredBy(providerName, model, route) };
+    } catch (error) {
+      logger.error(`${providerName} orchestration error:`, error);
+      return {
+        content: [{
+          type: 'text',
+          content: `I encountered an error: ${error instanceof Error ? error.message : 'Unknown error'}`
+        }]
+      };
+    }
+  }
+
+  static async streamMessage(
+    providerName: string,
+    messages: ChatMessage[],
+    model: string,
+    onDelta: (delta: ChatStreamDelta) => void,
+    generation?: GenerationOptions,
+    signal?: AbortSignal
+  ): Promise<AnsweredBy | undefined> {
+    // Failures are thrown rather than streamed as text, so the caller can end the
+    // stream with an error instead of a successful reply
+    let streamedText = false;
+
+    if (!getLatestUserText(messages) && getLatestUserAttachments(messages).length === 0) {
+      onDelta({ type: 'text', content: 'I couldn\'t understand your request. Please try again.' });
+      return;
+    }
+
+    const { result: response, route } = await GenerationContext.run(generation, () =>
+      this.getFlow(providerName).processUserRequest(messages, model, delta => {
+        if (delta.type === 'text') streamedText = true;
+        onDelta(delta);
+      }),
+      signal
+    );
+
+    // Direct answers and cancellations are produced without a streamed LLM call
+    if (!streamedText) {
+      for (const item of response) {
+        if (item.type === 'text') onDelta({ type: 'text', content: item.content as string });
+      }
+    }
+
+    return ProviderRouter.answeredBy(providerName, model, route);
+  }
+}
@@ -1,77 +1,318 @@
+import Anthropic from '@anthropic-ai/sdk';
+import type {
+  Base64ImageSource,
+  ContentBlockParam,
+  ImageBlockParam,
+  Message,
+  MessageCreateParamsNonStreaming,
+  MessageParam,
+  Tool
+} from '@anthropic-ai/sdk/resources/messages';
 import { BaseProvider } from './baseProvider';
-import { ChatMessage, ChatContent } from '@/lib/types/chat';
+import {
+  ChatMessage,
+  ChatContent,
+  ChatRequestOptions,
+  ChatStreamDelta,
+  ImageData,
+  ResponseFormat
+} from '@/lib/types/chat';
 import { env } from "@/app/config/env";
 import { Logger } from "@/app/utils/logger";
-import { DynamicFlow } from '@/lib/interfaces/DynamicFlowInterface';
-import { DynamicDiscovery } from '@/lib/interfaces/DynamicDiscoveryInterface';
-import { DynamicExecution } from '@/lib/interfaces/DynamicExecutionInterface';
-import { LLMFormatting } from '@/lib/interfaces/LLMFormattingInterface';
-import { Transparency } from '@/lib/interfaces/TransparencyInterface';
-import { Consent } from '@/lib/interfaces/ConsentInterface';
 
 const logger = new Logger("ClaudeProvider");
 
+// Display names shown in the UI mapped to Anthropic model IDs
+// (token limits and thinking support live in the model registry)
+const CLAUDE_MODELS: Record<string, string> = {
+  'Claude-Haiku-3': 'claude-3-haiku-20240307',
+  'Claude-Haiku-3-5': 'claude-3-5-haiku-20241022',
+  'Claude-Sonnet-4': 'claude-sonnet-4-20250514',
+  'Claude-Sonnet-3-7': 'claude-3-7-sonnet-20250219',
+  'Claude-Opus-4': 'claude-opus-4-20250514'
+};
+
+const MIN_THINKING_BUDGET = 1024;
+
 export class ClaudeProvider extends BaseProvider {
   name = 'claude';
-  models = ['Claude-Haiku-3', 'Claude-Haiku-3-5', 'Claude-Sonnet-4', 'Claude-Sonnet-3-7', 'Claude-Opus-4'];
-  private dynamicFlow: DynamicFlow; 
-
-  constructor() {
-    super();
-    // Initialize DynamicFlow with all dependencies
-    this.dynamicFlow = new (DynamicFlow as any)(
-      new (DynamicDiscovery as any)(),
-      new (DynamicExecution as any)(),
-      new (LLMFormatting as any)(),
-      new (Transparency as any)(),
-      new (Consent as any)()
-    );
-  }
+  models = Object.keys(CLAUDE_MODELS);
+  // Claude's tokenizer produces more tokens per character than OpenAI's
+  protected charsPerToken = 3.5;
+  private client: Anthropic | null = null;
 
   protected getApiKey(): string | null {
     return env.ANTHROPIC_API_KEY || null;
   }
 
-  async sendMessage(messages: ChatMessage[], model: string): Promise<ChatContent[]> {
+  private getClient(): Anthropic {
+    if (!this.client) {
+      this.client = new Anthropic({
+        apiKey: this.getApiKey() ?? undefined,
+        baseURL: env.ANTHROPIC_BASE_URL
+      });
+    }
+    return this.client;
+  }
+
+  async sendMessage(messages: ChatMessage[], model: string, options?: ChatRequestOptions): Promise<ChatContent[]> {
+    const request = this.buildRequest(messages, model, options);
+
     try {
-      // Extract user request from messages
-      const userRequest = this.extractUserRequest(messages);
-      
-      if (!userRequest) {
-        return [{
-          type: 'text',
-          content: 'I couldn\'t understand your request. Please try again.'
-        }];
+      const response = await this.getClient().messages.create(request, { signal: options?.signal });
+      options?.onUsage?.({
+        model: this.resolveModel(model),
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens
+      });
+      return this.toChatContent(response, options?.responseFormat);
+    } catch (error) {
+      logger.error('Anthropic messages request failed:', error, { model: request.model });
+      throw error;
+    }
+  }
+
+  async *streamMessage(messages: ChatMessage[], model: string, options?: ChatRequestOptions): AsyncIterable<ChatStreamDelta> {
+    // Structured replies arrive as one forced tool call, so there is nothing to stream
+    if (options?.responseFormat) {
+      yield* super.streamMessage(messages, model, options);
+      return;
+    }
+
+    const request = this.buildRequest(messages, model, options);
+    // tool_use input arrives as partial JSON, keyed by content block index
+    const pendingToolCalls = new Map<number, { id: string; name: string; json: string }>();
+    // Input tokens arrive on message_start, the running output count on message_delta
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    try {
+      const stream = await this.getClient().messages.create({ ...request, stream: true }, { signal: options?.signal });
+
+      for await (const event of stream) {
+        if (event.type === 'message_start') {
+          inputTokens = event.message.usage.input_tokens;
+          outputTokens = event.message.usage.output_tokens;
+        } else if (event.type === 'message_delta') {
+          outputTokens = event.usage.output_tokens;
+        } else if (event.type === 'content_block_start') {
+          const block = event.content_block;
+          if (block.type === 'tool_use') {
+            pendingToolCalls.set(event.index, { id: block.id, name: block.name, json: '' });
+            yield { type: 'tool_start', content: { id: block.id, name: block.name, input: {} } };
+          } else if (block.type === 'redacted_thinking') {
+            yield { type: 'thinking', content: '[Redacted thinking]', redactedThinking: block.data };
+          }
+        } else if (event.type === 'content_block_delta') {
+          const delta = event.delta;
+          if (delta.type === 'text_delta') {
+            yield { type: 'text', content: delta.text };
+          } else if (delta.type === 'thinking_delta') {
+            yield { type: 'thinking', content: delta.thinking };
+          } else if (delta.type === 'signature_delta') {
+            yield { type: 'thinking', content: '', signature: delta.signature };
+          } else if (delta.type === 'input_json_delta') {
+            const pending = pendingToolCalls.get(event.index);
+            if (pending) pending.json += delta.partial_json;
+          }
+        } else if (event.type === 'content_block_stop') {
+          const pending = pendingToolCalls.get(event.index);
+          if (pending) {
+            pendingToolCalls.delete(event.index);
+            yield {
+              type: 'tool_finish',
+              content: { id: pending.id, name: pending.name, input: this.parseArguments(pending.json) }
+            };
+          }
+        }
       }
-      
-      // Delegate to DynamicFlow for tool orchestration
-      const response = await this.dynamicFlow.processUserRequest(userRequest, model);
-      
-      return [{
-        type: 'text',
-        content: response
-      }];
     } catch (error) {
-      logger.error('Claude provider error:', error);
-      return [{
-        type: 'text',
-        content: `I encountered an error: ${error instanceof Error ? error.message : 'Unknown error'}`
-      }];
+      logger.error('Anthropic messages stream failed:', error, { model: request.model });
+      throw error;
+    }
+
+    options?.onUsage?.({ model: this.resolveModel(model), inputTokens, outputTokens });
+  }
+
+  private buildRequest(
+    messages: ChatMessage[],
+    model: string,
+    options?: ChatRequestOptions
+  ): MessageCreateParamsNonStreaming {
+    messages = this.prepareImages(messages, model);
+
+    const displayName = this.resolveModel(model);
+    // Accept raw Anthropic model IDs as well as the display names
+    const modelId = CLAUDE_MODELS[displayName] || displayName;
+    const spec = this.getModelSpec(displayName);
+    const generation = options?.generation;
+    const maxTokens = Math.min(generation?.maxTokens || spec.maxOutputTokens, spec.maxOutputTokens);
+    // Forcing a tool call isn't allowed together with extended thinking, and thinking
+    // needs a budget of at least 1024 tokens below max_tokens
+    const thinkingBudget = spec.capabilities.thinking && !options?.responseFormat && maxTokens > MIN_THINKING_BUDGET
+      ? env.ANTHROPIC_THINKING_BUDGET
+      : 0;
+
+    return {
+      model: modelId,
+      max_tokens: maxTokens,
+      system: this.extractSystemPrompt(this.withSystemPrompt(messages, options)),
+      messages: this.toAnthropicMessages(messages, thinkingBudget > 0),
+      // Anthropic's range is 0-1 and temperature can't be changed while thinking
+      ...(generation?.temperature !== undefined && thinkingBudget === 0 && {
+        temperature: Math.min(generation.temperature, 1)
+      }),
+      ...(generation?.stopSequences?.length && { stop_sequences: generation.stopSequences }),
+      ...(options?.tools?.length && {
+        tools: options.tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: tool.inputSchema as Tool.InputSchema
+        }))
+      }),
+      // Anthropic has no JSON output mode; a forced call to a tool whose input schema is the
+      // response schema gets the same result
+      ...(options?.responseFormat && {
+        tools: [{
+          name: options.responseFormat.name,
+          description: 'Respond with your answer as this tool\'s input.',
+          input_schema: options.responseFormat.schema as Tool.InputSchema
+        }],
+        tool_choice: { type: 'tool' as const, name: options.responseFormat.name }
+      }),
+      // Thinking tokens count towards max_tokens, so the budget must stay below it
+      ...(thinkingBudget > 0 && {
+        thinking: { type: 'enabled', budget_tokens: Math.max(MIN_THINKING_BUDGET, Math.min(thinkingBudget, maxTokens - 1)) }
+      })
+    };
+  }
+
+  // Anthropic has no system role; system messages go through the top-level system field
+  private extractSystemPrompt(messages: ChatMessage[]): string | undefined {
+    const systemPrompt = messages
+      .filter(msg => msg.role === 'system')
+      .map(msg => this.flattenContent(msg.content))
+      .filter(text => text.length > 0)
+      .join('\n\n');
+
+    return systemPrompt || undefined;
+  }
+
+  // With thinking on, the thinking that led to a tool call must come back before it
+  private toAnthropicMessages(messages: ChatMessage[], withThinking: boolean): MessageParam[] {
+    const anthropicMessages: MessageParam[] = [];
+
+    for (const msg of messages) {
+      if (msg.role === 'system') continue;
+
+      if (msg.role === 'user') {
+        const content = this.flattenContent(msg.content);
+        const images = this.getImages(msg.content);
+        if (images.length > 0) {
+          anthropicMessages.push({
+            role: 'user',
+            // Anthropic recommends images before the text that refers to them
+            content: [
+              ...images.map(image => this.toImageBlock(image)),
+              ...(content ? [{ type: 'text' as const, text: content }] : [])
+            ]
+          });
+        } else if (content) {
+          anthropicMessages.push({ role: 'user', content });
+        }
+        continue;
+      }
+
+      // tool_use blocks must be answered by tool_result blocks in the following user turn
+      for (const turn of this.toToolTurns(msg.content)) {
+        const blocks: ContentBlockParam[] = withThinking ? this.toThinkingBlocks(turn.thinking) : [];
+        if (turn.text) {
+          blocks.push({ type: 'text', text: turn.text });
+        }
+        for (const toolCall of turn.toolCalls) {
+          blocks.push({
+            type: 'tool_use',
+            id: toolCall.id,
+            name: toolCall.name,
+            input: toolCall.input && typeof toolCall.input === 'object' ? toolCall.input : {}
+          });
+        }
+        anthropicMessages.push({ role: 'assistant', content: blocks });
+
+        if (turn.toolCalls.length > 0) {
+          anthropicMessages.push({
+            role: 'user',
+            content: turn.toolCalls.map(toolCall => ({
+              type: 'tool_result' as const,
+              tool_use_id: toolCall.id,
+              content: this.toolResultText(toolCall),
+              is_error: toolCall.status === 'failed'
+            }))
+          });
+        }
+      }
     }
+
+    return anthropicMessages;
   }
 
-  private extractUserRequest(messages: ChatMessage[]): string {
-    // Extract the user's request from the conversation
-    const userMessages = messages.filter(msg => msg.role === 'user');
-    const lastUserMessage = userMessages[userMessages.length - 1];
-    
-    if (lastUserMessage && lastUserMessage.content.length > 0) {
-      const content = lastUserMessage.content[0];
-      if (content.type === 'text') {
-        return content.content as string;
+  // Only Claude's own signed thinking can be replayed; thinking from other providers is dropped
+  private toThinkingBlocks(thinking: ChatContent[]): ContentBlockParam[] {
+    return thinking.flatMap((item): ContentBlockParam[] => {
+      if (item.redactedThinking) {
+        return [{ type: 'redacted_thinking', data: item.redactedThinking }];
+      }
+      if (item.signature) {
+        return [{ type: 'thinking', thinking: item.content as string, signature: item.signature }];
+      }
+      return [];
+    });
+  }
+
+  private toImageBlock(image: ImageData): ImageBlockParam {
+    return {
+      type: 'image',
+      source: image.base64
+        ? { type: 'base64', media_type: image.mimeType as Base64ImageSource['media_type'], data: image.base64 }
+        : { type: 'url', url: image.url! }
+    };
+  }
+
+  private toChatContent(response: Message, responseFormat?: ResponseFormat): ChatContent[] {
+    const content: ChatContent[] = [];
+
+    for (const block of response.content) {
+      // The forced response tool's input is the structured reply
+      if (block.type === 'tool_use' && block.name === responseFormat?.name) {
+        content.push({ type: 'text', content: JSON.stringify(block.input) });
+        continue;
+      }
+
+      switch (block.type) {
+        case 'text':
+          content.push({ type: 'text', content: block.text });
+          break;
+        case 'thinking':
+          content.push({ type: 'thinking', content: block.thinking, signature: block.signature });
+          break;
+        case 'redacted_thinking':
+          content.push({ type: 'thinking', content: '[Redacted thinking]', redactedThinking: block.data });
+          break;
+        case 'tool_use':
+          content.push({
+            type: 'tool',
+            content: { id: block.id, name: block.name, input: block.input }
+          });
+          break;
+        default:
+          logger.warn(`Ignoring unsupported Anthropic content block: ${block.type}`);
       }
     }
-    
-    return '';
+
+    if (response.stop_reason === 'max_tokens') {
+      logger.warn('Anthropic response truncated at max_tokens', { model: response.model });
+    }
+
+    return content;
   }
 }
@@ -1,77 +1,344 @@
+import {
+  GoogleGenerativeAI,
+  BlockReason,
+  ChatSession,
+  Content,
+  EnhancedGenerateContentResponse,
+  FinishReason,
+  FunctionDeclarationSchema,
+  GenerationConfig,
+  Part,
+  ResponseSchema
+} from '@google/generative-ai';
 import { BaseProvider } from './baseProvider';
-import { ChatMessage, ChatContent } from '@/lib/types/chat';
+import { getRegisteredModels } from './modelRegistry';
+import {
+  ChatMessage,
+  ChatContent,
+  ChatRequestOptions,
+  ChatStreamDelta,
+  ResponseFormat,
+  ToolCall,
+  ToolDefinition
+} from '@/lib/types/chat';
 import { env } from "@/app/config/env";
 import { Logger } from "@/app/utils/logger";
-import { DynamicFlow } from '@/lib/interfaces/DynamicFlowInterface';
-import { DynamicDiscovery } from '@/lib/interfaces/DynamicDiscoveryInterface';
-import { DynamicExecution } from '@/lib/interfaces/DynamicExecutionInterface';
-import { LLMFormatting } from '@/lib/interfaces/LLMFormattingInterface';
-import { Transparency } from '@/lib/interfaces/TransparencyInterface';
-import { Consent } from '@/lib/interfaces/ConsentInterface';
 
 const logger = new Logger("GeminiProvider");
 
+// Finish reasons where Gemini withheld the candidate's content for safety. RECITATION is
+// reported separately: it means the reply was too close to copyrighted or training text
+const BLOCKED_FINISH_REASONS: FinishReason[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII
+];
+
+// Gemini accepts only an OpenAPI subset of JSON Schema; anything else (e.g. $schema,
+// additionalProperties) makes the request fail, so strip schemas down to these keys
+const GEMINI_SCHEMA_KEYS = ['type', 'format', 'description', 'nullable', 'enum', 'properties', 'required', 'items'];
+
+function isSchemaObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toGeminiSchema(schema: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const key of GEMINI_SCHEMA_KEYS) {
+    const value = schema[key];
+    if (value === undefined) continue;
+
+    if (key === 'properties' && isSchemaObject(value)) {
+      result.properties = Object.fromEntries(
+        Object.entries(value).map(([name, property]) => [name, isSchemaObject(property) ? toGeminiSchema(property) : property])
+      );
+    } else if (key === 'items' && isSchemaObject(value)) {
+      result.items = toGeminiSchema(value);
+    } else {
+      result[key] = value;
+    }
+  }
+
+  return result;
+}
+
+// Objects without declared properties (free-form maps) are rejected as well
+function hasOnlyDeclaredObjects(schema: Record<string, unknown>): boolean {
+  const properties = isSchemaObject(schema.properties) ? Object.values(schema.properties) : [];
+  if (schema.type === 'object' && properties.length === 0) {
+    return false;
+  }
+  return properties.every(value => !isSchemaObject(value) || hasOnlyDeclaredObjects(value))
+    && (!isSchemaObject(schema.items) || hasOnlyDeclaredObjects(schema.items));
+}
+
 export class GeminiProvider extends BaseProvider {
   name = 'gemini';
-  models = ['gemini-2.5-flash', 'gemini-2.5-flash-lite', 'gemini-2.5-Pro'];
-  private dynamicFlow: DynamicFlow; 
-
-  constructor() {
-    super();
-    // Initialize DynamicFlow with all dependencies
-    this.dynamicFlow = new (DynamicFlow as any)(
-      new (DynamicDiscovery as any)(),
-      new (DynamicExecution as any)(),
-      new (LLMFormatting as any)(),
-      new (Transparency as any)(),
-      new (Consent as any)()
-    );
-  }
+  models = getRegisteredModels('gemini');
+  // Gemini counts a fixed 258 tokens per image and adds no per-turn markup
+  protected tokensPerImage = 258;
+  protected tokensPerMessage = 0;
+  private client: GoogleGenerativeAI | null = null;
 
   protected getApiKey(): string | null {
     return env.GOOGLE_API_KEY || null;
   }
 
-  async sendMessage(messages: ChatMessage[], model: string): Promise<ChatContent[]> {
+  // Gemini model IDs are lowercase ("gemini-2.5-pro")
+  protected resolveModel(model: string): string {
+    return super.resolveModel(model).toLowerCase();
+  }
+
+  private getClient(): GoogleGenerativeAI {
+    if (!this.client) {
+      this.client = new GoogleGenerativeAI(this.getApiKey() || '');
+    }
+    return this.client;
+  }
+
+  async sendMessage(messages: ChatMessage[], model: string, options?: ChatRequestOptions): Promise<ChatContent[]> {
+    const { chat, lastContent, selectedModel } = this.startChat(messages, model, options);
+
+    try {
+      const result = await chat.sendMessage(lastContent.parts, { signal: options?.signal });
+      this.reportUsage(result.response, selectedModel, options);
+      return this.toChatContent(result.response);
+    } catch (error) {
+      logger.error('Gemini generateContent failed:', error, { model: selectedModel });
+      throw error;
+    }
+  }
+
+  async *streamMessage(messages: ChatMessage[], model: string, options?: ChatRequestOptions): AsyncIterable<ChatStreamDelta> {
+    const { chat, lastContent, selectedModel } = this.startChat(messages, model, options);
+
     try {
-      // Extract user request from messages
-      const userRequest = this.extractUserRequest(messages);
-      
-      if (!userRequest) {
-        return [{
-          type: 'text',
-          content: 'I couldn\'t understand your request. Please try again.'
-        }];
+      const result = await chat.sendMessageStream(lastContent.parts, { signal: options?.signal });
+
+      for await (const chunk of result.stream) {
+        // Trailing chunks may only carry usage metadata
+        if (!chunk.candidates?.length && !chunk.promptFeedback?.blockReason) continue;
+
+        for (const item of this.toChatContent(chunk)) {
+          if (item.type === 'tool') {
+            // Gemini delivers function calls whole, so start and finish arrive together
+            yield { type: 'tool_start', content: item.content as ToolCall };
+            yield { type: 'tool_finish', content: item.content as ToolCall };
+          } else if (item.type === 'text' || item.type === 'error') {
+            yield { type: item.type, content: item.content as string };
+          }
+        }
       }
-      
-      // Delegate to DynamicFlow for tool orchestration
-      const response = await this.dynamicFlow.processUserRequest(userRequest, model);
-      
-      return [{
-        type: 'text',
-        content: response
-      }];
+
+      // The aggregated response carries the usage totals for the whole stream
+      this.reportUsage(await result.response, selectedModel, options);
     } catch (error) {
-      logger.error('Gemini provider error:', error);
+      logger.error('Gemini generateContentStream failed:', error, { model: selectedModel });
+      throw error;
+    }
+  }
+
+  // Builds a chat session from everything but the final user turn, which is sent separately
+  private startChat(messages: ChatMessage[], model: string, options?: ChatRequestOptions): {
+    chat: ChatSession;
+    lastContent: Content;
+    selectedModel: string;
+  } {
+    messages = this.prepareImages(messages, model);
+
+    const selectedModel = this.resolveModel(model);
+    const contents = this.toGeminiContents(messages);
+    const lastContent = contents.pop();
+
+    // The final turn is either the user's message or the results of the model's function calls
+    if (!lastContent || (lastContent.role !== 'user' && lastContent.role !== 'function')) {
+      throw new Error('Gemini requests must end with a user message or function results');
+    }
+
+    const generativeModel = this.getClient().getGenerativeModel(
+      {
+        model: selectedModel,
+        systemInstruction: this.extractSystemInstruction(this.withSystemPrompt(messages, options)),
+        ...(options?.tools?.length && {
+          tools: [{ functionDeclarations: options.tools.map(tool => this.toFunctionDeclaration(tool)) }]
+        }),
+        generationConfig: this.toGenerationConfig(selectedModel, options)
+      },
+      { baseUrl: env.GOOGLE_BASE_URL }
+    );
+
+    return {
+      chat: generativeModel.startChat({ history: contents }),
+      lastContent,
+      selectedModel
+    };
+  }
+
+  private reportUsage(response: EnhancedGenerateContentResponse, model: string, options?: ChatRequestOptions) {
+    const usage = response.usageMetadata;
+    if (!usage) return;
+
+    options?.onUsage?.({
+      model,
+      inputTokens: usage.promptTokenCount,
+      // Thinking tokens are billed as output but not included in candidatesTokenCount
+      outputTokens: usage.totalTokenCount - usage.promptTokenCount
+    });
+  }
+
+  private toFunctionDeclaration(tool: ToolDefinition) {
+    const parameters = toGeminiSchema(tool.inputSchema);
+
+    return {
+      name: tool.name,
+      description: tool.description,
+      // Gemini rejects object schemas without properties, so omit parameters for no-arg tools.
+      // toGeminiSchema keeps only the keys the SDK's schema types declare
+      ...(isSchemaObject(parameters.properties) && Object.keys(parameters.properties).length > 0 && {
+        parameters: parameters as unknown as FunctionDeclarationSchema
+      })
+    };
+  }
+
+  private toGenerationConfig(model: string, options?: ChatRequestOptions): GenerationConfig {
+    const generation = options?.generation;
+
+    return {
+      ...(generation?.temperature !== undefined && { temperature: generation.temperature }),
+      ...(generation?.maxTokens && {
+        maxOutputTokens: Math.min(generation.maxTokens, this.getModelSpec(model).maxOutputTokens)
+      }),
+      // Gemini accepts at most five stop sequences
+      ...(generation?.stopSequences?.length && { stopSequences: generation.stopSequences.slice(0, 5) }),
+      ...(options?.responseFormat && this.toResponseConfig(options.responseFormat))
+    };
+  }
+
+  // Schemas Gemini can't express fall back to plain JSON mode, validated by the caller
+  private toResponseConfig(responseFormat: ResponseFormat): GenerationConfig {
+    const schema = toGeminiSchema(responseFormat.schema);
+    return {
+      responseMimeType: 'application/json',
+      ...(hasOnlyDeclaredObjects(schema) && { responseSchema: schema as unknown as ResponseSchema })
+    };
+  }
+
+  private extractSystemInstruction(messages: ChatMessage[]): string | undefined {
+    const systemInstruction = messages
+      .filter(msg => msg.role === 'system')
+      .map(msg => this.flattenContent(msg.content))
+      .filter(text => text.length > 0)
+      .join('\n\n');
+
+    return systemInstruction || undefined;
+  }
+
+  // Gemini only knows 'user', 'model' and 'function' (for tool results), the history must
+  // start with a user turn, and consecutive turns from the same role are merged into one
+  private toGeminiContents(messages: ChatMessage[]): Content[] {
+    const contents: Content[] = [];
+
+    const append = (role: string, parts: Part[]) => {
+      if (parts.length === 0) return;
+      if (contents.length === 0 && role !== 'user') return;
+
+      const previous = contents[contents.length - 1];
+      if (previous && previous.role === role) {
+        previous.parts.push(...parts);
+      } else {
+        contents.push({ role, parts });
+      }
+    };
+
+    for (const msg of messages) {
+      if (msg.role === 'system') continue;
+
+      if (msg.role === 'user') {
+        const text = this.flattenContent(msg.content);
+        append('user', [
+          ...(text ? [{ text }] : []),
+          // Attached images are sent inline; URLs must be ones Gemini can read (e.g. File API URIs)
+          ...this.getImages(msg.content).map(image => image.base64
+            ? { inlineData: { mimeType: image.mimeType, data: image.base64 } }
+            : { fileData: { mimeType: image.mimeType, fileUri: image.url! } })
+        ]);
+        continue;
+      }
+
+      for (const turn of this.toToolTurns(msg.content)) {
+        const parts: Part[] = turn.text ? [{ text: turn.text }] : [];
+        for (const toolCall of turn.toolCalls) {
+          parts.push({ functionCall: { name: toolCall.name, args: toolCall.input ?? {} } });
+        }
+        append('model', parts);
+
+        append('function', turn.toolCalls.map(toolCall => ({
+          functionResponse: {
+            name: toolCall.name,
+            response: toolCall.status === 'failed'
+              ? { error: toolCall.error || 'Tool execution failed' }
+              : { result: this.toolResultText(toolCall) }
+          }
+        })));
+      }
+    }
+
+    return contents;
+  }
+
+  private toChatContent(response: EnhancedGenerateContentResponse): ChatContent[] {
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason && blockReason !== BlockReason.BLOCKED_REASON_UNSPECIFIED) {
+      logger.warn('Gemini blocked the prompt', { blockReason });
       return [{
-        type: 'text',
-        content: `I encountered an error: ${error instanceof Error ? error.message : 'Unknown error'}`
+        type: 'error',
+        content: response.promptFeedback?.blockReasonMessage
+          || `Gemini blocked this request (${blockReason}).`
       }];
     }
-  }
 
-  private extractUserRequest(messages: ChatMessage[]): string {
-    // Extract the user's request from the conversation
-    const userMessages = messages.filter(msg => msg.role === 'user');
-    const lastUserMessage = userMessages[userMessages.length - 1];
-    
-    if (lastUserMessage && lastUserMessage.content.length > 0) {
-      const content = lastUserMessage.content[0];
-      if (content.type === 'text') {
-        return content.content as string;
+    const candidate = response.candidates?.[0];
+    if (!candidate) {
+      return [{ type: 'error', content: 'Gemini returned no response candidates.' }];
+    }
+
+    const content: ChatContent[] = [];
+
+    for (const part of candidate.content?.parts || []) {
+      if (part.text) {
+        content.push({ type: 'text', content: part.text });
       }
+      if (part.functionCall) {
+        content.push({
+          type: 'tool',
+          content: {
+            // Gemini function calls carry no ID, so generate one for tracking
+            id: `call_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+            name: part.functionCall.name,
+            input: part.functionCall.args
+          }
+        });
+      }
+    }
+
+    if (candidate.finishReason && BLOCKED_FINISH_REASONS.includes(candidate.finishReason)) {
+      logger.warn('Gemini stopped the response', { finishReason: candidate.finishReason });
+      content.push({
+        type: 'error',
+        content: candidate.finishMessage
+          || `Gemini stopped this response for safety reasons (${candidate.finishReason}).`
+      });
+    } else if (candidate.finishReason === FinishReason.RECITATION) {
+      logger.warn('Gemini stopped the response', { finishReason: candidate.finishReason });
+      content.push({
+        type: 'error',
+        content: candidate.finishMessage
+          || 'Gemini stopped this response because it was repeating existing material too closely (recitation). Try rephrasing the request or asking for a summary instead.'
+      });
     }
-    
-    return '';
+
+    return content;
   }
 }
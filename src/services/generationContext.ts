@@ -0,0 +1,47 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { AnsweredBy, GenerationOptions } from '@/lib/types/chat';
+
+interface Turn {
+  options?: GenerationOptions;
+  // Fires when the client that asked for the turn goes away
+  signal?: AbortSignal;
+  // Provider and model that answered the turn's first call
+  route?: AnsweredBy;
+}
+
+// State of the /api/chat turn being handled: its generation options and the provider
+// chosen for it. Like UsageTracker, they live in async context so LLMFormatting and the
+// router can apply them to every call without each DynamicFlow method passing them along
+export class GenerationContext {
+  private static storage = new AsyncLocalStorage<Turn>();
+
+  // Runs the turn and returns its result with the route it was pinned to, which is unset
+  // when the turn made no vendor call
+  static async run<T>(
+    options: GenerationOptions | undefined,
+    handler: () => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<{ result: T; route?: AnsweredBy }> {
+    const turn: Turn = { options, signal };
+    const result = await this.storage.run(turn, handler);
+    return { result, route: turn.route };
+  }
+
+  static current(): GenerationOptions | undefined {
+    return this.storage.getStore()?.options;
+  }
+
+  static signal(): AbortSignal | undefined {
+    return this.storage.getStore()?.signal;
+  }
+
+  static route(): AnsweredBy | undefined {
+    return this.storage.getStore()?.route;
+  }
+
+  // Outside a turn there is nothing to keep the route for
+  static setRoute(route: AnsweredBy): void {
+    const turn = this.storage.getStore();
+    if (turn) turn.route = route;
+  }
+}
@@ -0,0 +1,71 @@
+import { OpenAIProvider } from './openaiProvider';
+import { ChatMessage, ChatContent, ChatRequestOptions, ChatStreamDelta, ModelSpec } from '@/lib/types/chat';
+import { env } from "@/app/config/env";
+import { Logger } from "@/app/utils/logger";
+
+const logger = new Logger("LocalProvider");
+
+// Any server exposing the OpenAI /v1/chat/completions API (Ollama, llama.cpp, vLLM, ...).
+// Requests and responses are the same as OpenAI's, only the endpoint, key and models differ
+export class LocalProvider extends OpenAIProvider {
+  name = 'local';
+  models: string[] = [...env.LOCAL_LLM_MODELS];
+
+  protected getApiKey(): string | null {
+    // The SDK refuses to start without a key, even when the server ignores it
+    return env.LOCAL_LLM_API_KEY || 'not-needed';
+  }
+
+  protected getBaseUrl(): string | undefined {
+    return env.LOCAL_LLM_BASE_URL;
+  }
+
+  // Local servers usually run without authentication, so only the endpoint is required
+  isAvailable(): boolean {
+    return !!env.LOCAL_LLM_BASE_URL;
+  }
+
+  // Configured models win; otherwise ask the server what it has loaded
+  async listModels(): Promise<string[]> {
+    if (env.LOCAL_LLM_MODELS.length > 0 || !this.isAvailable()) {
+      return this.models;
+    }
+
+    try {
+      const page = await this.getClient().models.list();
+      this.models = page.data.map(model => model.id);
+    } catch (error) {
+      logger.error('Failed to list models from local endpoint:', error, { baseUrl: env.LOCAL_LLM_BASE_URL });
+    }
+    return this.models;
+  }
+
+  // Local models aren't in the registry, so their limits come from configuration
+  getModelSpec(): ModelSpec {
+    return {
+      contextWindow: env.LOCAL_LLM_CONTEXT_WINDOW,
+      maxOutputTokens: Math.floor(env.LOCAL_LLM_CONTEXT_WINDOW / 4),
+      // Tool support depends on the server and model; vision isn't assumed
+      capabilities: { vision: false, tools: true, thinking: false, streaming: true, structuredOutput: false }
+    };
+  }
+
+  async sendMessage(messages: ChatMessage[], model: string, options?: ChatRequestOptions): Promise<ChatContent[]> {
+    await this.ensureModels();
+    return super.sendMessage(messages, model, options);
+  }
+
+  async *streamMessage(messages: ChatMessage[], model: string, options?: ChatRequestOptions): AsyncIterable<ChatStreamDelta> {
+    await this.ensureModels();
+    yield* super.streamMessage(messages, model, options);
+  }
+
+  // 'auto' resolves to the first model, so the list must be known before the first request
+  private async ensureModels(): Promise<void> {
+    if (this.models.length > 0) return;
+
+    if ((await this.listModels()).length === 0) {
+      throw new Error(`No models available from the local endpoint ${env.LOCAL_LLM_BASE_URL || '(LOCAL_LLM_BASE_URL is not set)'}`);
+    }
+  }
+}
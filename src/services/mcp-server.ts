@@ -1,36 +1,361 @@
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { auth, UnauthorizedError } from "@modelcontextprotocol/sdk/client/auth.js";
+import { MCPConnectionState, MCPServerConfig, MCPServerSummary } from "@/lib/types/mcp";
+import { getEnabledMCPServerConfigs, getMCPServerConfig, getMCPServerTarget } from "./mcpServerConfig";
+import { MCPOAuthProvider } from "./mcpOAuthProvider";
 import { env } from "@/app/config/env";
+import { Logger } from "@/app/utils/logger";
 
+const logger = new Logger("MCPServerManager");
+
+// The server no longer knows our session ID (it restarted or expired the session). The
+// request was rejected before it ran, so it is safe to send again on a fresh session
+function isSessionExpired(error: unknown): boolean {
+  return error instanceof Error && /HTTP 404/.test(error.message);
+}
+
+// The connection itself failed; the request may or may not have reached the server
+function isConnectionError(error: unknown): boolean {
+  return error instanceof Error
+    && /fetch failed|network|socket|ECONNREFUSED|ECONNRESET|ENOTFOUND|Not connected/i.test(`${error.name} ${error.message}`);
+}
+
+// Public view of a server for the management API, with its live connection state. Anyone
+// can list servers, so the session ID stays out, since it would let a caller use the session
+export function getMCPServerSummary(config: MCPServerConfig): MCPServerSummary {
+  const state = MCPServerManager.getInstance(config.id).getState();
+  delete state.sessionId;
+
+  return {
+    id: config.id,
+    name: config.name,
+    transport: config.transport,
+    enabled: config.enabled,
+    target: getMCPServerTarget(config.id),
+    timeoutMs: config.timeoutMs,
+    state
+  };
+}
+
+// One manager per configured MCP server, each holding a pooled session that is opened on
+// first use, reconnected with backoff, closed when idle and terminated on shutdown.
+// Stdio servers are spawned as child processes and restarted if they crash
 export class MCPServerManager {
-  private static instance: MCPServerManager;
-  private serverUrl: string;
-  
-  constructor(serverUrl: string = env.MCP_SERVER_URL) {
-    this.serverUrl = serverUrl;
+  private static managers: Map<string, MCPServerManager> = new Map();
+  private state: MCPConnectionState = { status: 'idle' };
+  private client: Client | null = null;
+  private transport: Transport | null = null;
+  private connecting: Promise<Client> | null = null;
+  // Kept when the connection drops so the reconnect resumes the same server-side session
+  private sessionId?: string;
+  private activeCalls = 0;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  // Consecutive crashes of a stdio server, reset once a call succeeds
+  private crashes = 0;
+  private restartTimer: ReturnType<typeof setTimeout> | null = null;
+  private readonly oauthProvider: MCPOAuthProvider | null;
+
+  constructor(private readonly config: MCPServerConfig) {
+    this.oauthProvider = config.transport === 'http' && config.oauth
+      ? new MCPOAuthProvider(config.id, config.oauth)
+      : null;
   }
-  
-  static getInstance(serverUrl?: string) {
-    if (!this.instance) {
-      this.instance = new MCPServerManager(serverUrl);
+
+  // Defaults to the first enabled server
+  static getInstance(serverId: string = getEnabledMCPServerConfigs()[0]?.id): MCPServerManager {
+    if (!this.managers.has(serverId)) {
+      const config = getMCPServerConfig(serverId);
+      if (!config) {
+        throw new Error(`MCP server '${serverId}' is not configured`);
+      }
+      this.managers.set(serverId, new MCPServerManager(config));
     }
-    return this.instance;
+    return this.managers.get(serverId)!;
+  }
+
+  // Closes the server's session and forgets its manager, so the next call picks up changed settings
+  static async reset(serverId: string): Promise<void> {
+    const manager = this.managers.get(serverId);
+    if (!manager) return;
+
+    this.managers.delete(serverId);
+    await manager.shutdown();
+  }
+
+  static async shutdownAll(): Promise<void> {
+    const managers = [...this.managers.values()];
+    this.managers.clear();
+    await Promise.all(managers.map(manager => manager.shutdown()));
+  }
+
+  getConfig(): MCPServerConfig {
+    return this.config;
+  }
+
+  getState(): MCPConnectionState {
+    return { ...this.state };
   }
 
   async executeWithConnection<T>(operation: (client: Client) => Promise<T>): Promise<T> {
-    const transport = new StreamableHTTPClientTransport(
-      new URL(this.serverUrl)
-    );
+    this.activeCalls++;
+    this.clearIdleTimer();
+
+    try {
+      const client = await this.getClient();
+      try {
+        const result = await this.withTimeout(operation(client));
+        this.crashes = 0;
+        return result;
+      } catch (error) {
+        if (this.sessionId && isSessionExpired(error)) {
+          logger.warn(`MCP session ${this.sessionId} on ${this.config.id} expired, starting a new one`);
+          this.sessionId = undefined;
+          this.dropClient();
+          return await this.withTimeout(operation(await this.getClient()));
+        }
+        if (error instanceof UnauthorizedError) {
+          // Tokens were revoked or could not be refreshed
+          this.dropClient();
+          this.markUnauthorized();
+        } else if (isConnectionError(error)) {
+          // Not retried, since a tool call may already have run; the next call reconnects
+          this.dropClient();
+        }
+        throw error;
+      }
+    } finally {
+      this.activeCalls--;
+      this.scheduleIdleClose();
+    }
+  }
+
+  // Exchanges the code from the OAuth callback for tokens; the next call connects with them
+  async finishAuthorization(authorizationCode: string): Promise<void> {
+    if (!this.oauthProvider || this.config.transport !== 'http') {
+      throw new Error(`MCP server '${this.config.id}' does not use OAuth`);
+    }
+
+    await auth(this.oauthProvider, { serverUrl: this.config.url, authorizationCode });
+    this.dropClient();
+    this.state = { ...this.state, status: 'idle', authorizationUrl: undefined, lastError: undefined };
+    logger.info(`Authorized MCP server ${this.config.id}`);
+  }
+
+  // Ends the server-side session rather than leaving it to expire
+  async shutdown(): Promise<void> {
+    this.clearIdleTimer();
+    this.clearRestartTimer();
+    await this.connecting?.catch(() => undefined);
+
+    if (this.transport instanceof StreamableHTTPClientTransport && this.transport.sessionId) {
+      try {
+        await this.transport.terminateSession();
+      } catch (error) {
+        logger.warn(`Failed to terminate MCP session on ${this.config.id}`, { error: String(error) });
+      }
+    }
+
+    this.sessionId = undefined;
+    this.dropClient();
+  }
+
+  // Concurrent callers share one in-flight connection attempt
+  private getClient(): Promise<Client> {
+    if (this.client) {
+      return Promise.resolve(this.client);
+    }
+    if (!this.connecting) {
+      this.connecting = this.connectWithBackoff().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  private async connectWithBackoff(): Promise<Client> {
+    for (let attempt = 1; ; attempt++) {
+      this.state = { ...this.state, status: 'connecting' };
+      try {
+        return await this.connect();
+      } catch (error) {
+        // Retrying can't help until the user has approved access
+        if (error instanceof UnauthorizedError) {
+          this.markUnauthorized();
+          throw error;
+        }
+
+        this.state = {
+          ...this.state,
+          status: 'error',
+          lastError: error instanceof Error ? error.message : String(error)
+        };
+
+        if (attempt >= env.MCP_RECONNECT_ATTEMPTS) {
+          logger.error(`Failed to connect to MCP server ${this.config.id} after ${attempt} attempts`, error);
+          throw error;
+        }
+
+        const delay = env.MCP_RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1);
+        logger.warn(`Connecting to MCP server ${this.config.id} failed, retrying in ${delay}ms`, { attempt });
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private async connect(): Promise<Client> {
+    const transport = this.createTransport();
     const client = new Client(
       { name: "nextjs-client", version: "1.0.0" },
       { capabilities: { prompts: {}, resources: {}, tools: {} } }
     );
 
-    try {
-      await client.connect(transport);
-      return await operation(client);
-    } finally {
-      client.close();
+    // Closes we start ourselves detach the client first, so only drops and crashes get here
+    client.onclose = () => {
+      if (this.client !== client) return;
+      this.client = null;
+      this.transport = null;
+      this.state = { ...this.state, status: 'idle' };
+
+      if (this.config.transport === 'stdio') {
+        this.scheduleRestart();
+      }
+    };
+
+    await client.connect(transport, { timeout: this.config.timeoutMs });
+
+    this.client = client;
+    this.transport = transport;
+    this.sessionId = transport.sessionId;
+    // A resumed session skips the handshake, so keep what the server reported last time
+    this.state = {
+      status: 'connected',
+      sessionId: this.sessionId,
+      lastConnectedAt: Date.now(),
+      serverInfo: client.getServerVersion() ?? this.state.serverInfo,
+      capabilities: client.getServerCapabilities() ?? this.state.capabilities
+    };
+    logger.info(`Connected to MCP server ${this.config.id}`, { sessionId: this.sessionId });
+
+    return client;
+  }
+
+  private createTransport(): Transport {
+    if (this.config.transport === 'http') {
+      const { url, headers, bearerToken } = this.config;
+      // With a known session ID the SDK skips the initialize handshake and reuses the session
+      return new StreamableHTTPClientTransport(new URL(url), {
+        sessionId: this.sessionId,
+        // Answers 401s by refreshing the token or starting the authorization flow
+        authProvider: this.oauthProvider ?? undefined,
+        requestInit: {
+          headers: { ...headers, ...(bearerToken && { Authorization: `Bearer ${bearerToken}` }) }
+        }
+      });
+    }
+
+    const transport = new StdioClientTransport({
+      command: this.config.command,
+      args: this.config.args,
+      env: this.config.env,
+      cwd: this.config.cwd,
+      stderr: 'pipe'
+    });
+
+    // Stdio servers log to stderr, which would otherwise go straight to the console
+    transport.stderr?.on('data', (chunk: Buffer) => {
+      for (const line of chunk.toString().split('\n')) {
+        if (line.trim()) {
+          logger.info(`[${this.config.id}] ${line.trimEnd()}`);
+        }
+      }
+    });
+
+    return transport;
+  }
+
+  private markUnauthorized() {
+    const authorizationUrl = this.oauthProvider?.authorizationUrl ?? undefined;
+    logger.warn(`MCP server ${this.config.id} requires authorization`, { authorizationUrl });
+    this.state = {
+      ...this.state,
+      status: 'unauthorized',
+      authorizationUrl,
+      lastError: 'Authorization required'
+    };
+  }
+
+  // The request keeps running on the server, but the caller stops waiting for it
+  private withTimeout<T>(promise: Promise<T>): Promise<T> {
+    const { timeoutMs } = this.config;
+    if (!timeoutMs) return promise;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`MCP server ${this.config.id} did not respond within ${timeoutMs}ms`)),
+        timeoutMs
+      );
+    });
+
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+
+  private scheduleRestart() {
+    if (this.crashes >= env.MCP_STDIO_MAX_RESTARTS) {
+      logger.error(`MCP server ${this.config.id} keeps exiting, not restarting it again until the next call`);
+      this.crashes = 0;
+      return;
+    }
+
+    const delay = env.MCP_RECONNECT_BASE_DELAY_MS * 2 ** this.crashes;
+    this.crashes++;
+    logger.warn(`MCP server ${this.config.id} exited unexpectedly, restarting in ${delay}ms`, { crashes: this.crashes });
+
+    this.clearRestartTimer();
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      this.getClient()
+        .then(() => this.scheduleIdleClose())
+        .catch(error => logger.error(`Failed to restart MCP server ${this.config.id}`, error));
+    }, delay);
+    this.restartTimer.unref?.();
+  }
+
+  private dropClient() {
+    const client = this.client;
+    this.client = null;
+    this.transport = null;
+    this.state = { ...this.state, status: 'idle' };
+    client?.close().catch(() => undefined);
+  }
+
+  private scheduleIdleClose() {
+    if (this.activeCalls > 0 || !this.client || env.MCP_SESSION_IDLE_TIMEOUT_MS === 0) return;
+
+    this.clearIdleTimer();
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = null;
+      logger.info(`Closing idle MCP connection to ${this.config.id}`);
+      this.dropClient();
+    }, env.MCP_SESSION_IDLE_TIMEOUT_MS);
+    // An idle session should never keep the process alive
+    this.idleTimer.unref?.();
+  }
+
+  private clearRestartTimer() {
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+  }
+
+  private clearIdleTimer() {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,94 @@
+import { randomBytes } from 'crypto';
+import { OAuthClientProvider } from '@modelcontextprotocol/sdk/client/auth.js';
+import {
+  OAuthClientInformation,
+  OAuthClientInformationFull,
+  OAuthClientMetadata,
+  OAuthTokens
+} from '@modelcontextprotocol/sdk/shared/auth.js';
+import { MCPOAuthSettings } from '@/lib/types/mcp';
+import { cacheService } from './cache';
+import { env } from '@/app/config/env';
+
+const OAUTH_FIELDS = ['tokens', 'client', 'verifier'];
+
+// OAuth client for one MCP server, used by the SDK's auth flow: it discovers the
+// authorization server from the protected resource metadata, registers dynamically
+// unless a client ID is configured, and runs the authorization code flow with PKCE.
+// Tokens and registrations are kept in Redis so they survive restarts
+export class MCPOAuthProvider implements OAuthClientProvider {
+  // Where the user has to go to approve access; set when the server answers 401
+  authorizationUrl: string | null = null;
+
+  constructor(
+    private readonly serverId: string,
+    private readonly settings: MCPOAuthSettings
+  ) {}
+
+  static async clear(serverId: string): Promise<void> {
+    await cacheService.deleteOAuthData(serverId, OAUTH_FIELDS);
+  }
+
+  get redirectUrl(): string {
+    return new URL('/api/mcp-oauth/callback', env.APP_BASE_URL).toString();
+  }
+
+  get clientMetadata(): OAuthClientMetadata {
+    return {
+      client_name: this.settings.clientName || 'Chat MCP Client',
+      redirect_uris: [this.redirectUrl],
+      grant_types: ['authorization_code', 'refresh_token'],
+      response_types: ['code'],
+      token_endpoint_auth_method: this.settings.clientSecret ? 'client_secret_post' : 'none',
+      ...(this.settings.scope && { scope: this.settings.scope })
+    };
+  }
+
+  // The callback route finds the server from the state, which also guards against CSRF
+  async state(): Promise<string> {
+    const state = randomBytes(16).toString('hex');
+    await cacheService.setOAuthState(state, this.serverId);
+    return state;
+  }
+
+  async clientInformation(): Promise<OAuthClientInformation | undefined> {
+    if (this.settings.clientId) {
+      return { client_id: this.settings.clientId, client_secret: this.settings.clientSecret };
+    }
+    return await cacheService.getOAuthData<OAuthClientInformationFull>(this.serverId, 'client') ?? undefined;
+  }
+
+  async saveClientInformation(clientInformation: OAuthClientInformationFull): Promise<void> {
+    await cacheService.setOAuthData(this.serverId, 'client', clientInformation);
+  }
+
+  async tokens(): Promise<OAuthTokens | undefined> {
+    return await cacheService.getOAuthData<OAuthTokens>(this.serverId, 'tokens') ?? undefined;
+  }
+
+  async saveTokens(tokens: OAuthTokens): Promise<void> {
+    await cacheService.setOAuthData(this.serverId, 'tokens', tokens);
+    this.authorizationUrl = null;
+  }
+
+  // There is no browser on the server side; the server panel links the user here instead
+  redirectToAuthorization(authorizationUrl: URL): void {
+    this.authorizationUrl = authorizationUrl.toString();
+  }
+
+  async saveCodeVerifier(codeVerifier: string): Promise<void> {
+    await cacheService.setOAuthData(this.serverId, 'verifier', codeVerifier, true);
+  }
+
+  async codeVerifier(): Promise<string> {
+    const codeVerifier = await cacheService.getOAuthData<string>(this.serverId, 'verifier');
+    if (!codeVerifier) {
+      throw new Error(`No authorization in progress for MCP server '${this.serverId}'`);
+    }
+    return codeVerifier;
+  }
+
+  async invalidateCredentials(scope: 'all' | 'client' | 'tokens' | 'verifier'): Promise<void> {
+    await cacheService.deleteOAuthData(this.serverId, scope === 'all' ? OAUTH_FIELDS : [scope]);
+  }
+}
@@ -0,0 +1,88 @@
+import { PromptMessage } from '@modelcontextprotocol/sdk/types.js';
+import { ChatContent, ChatMessage } from '@/lib/types/chat';
+import { MCPPromptSummary } from '@/lib/types/mcp';
+import { MCPServerManager } from './mcp-server';
+import { getEnabledMCPServerConfigs } from './mcpServerConfig';
+import { IMAGE_TYPES, resourceAttachment } from '@/app/utils/attachments';
+import { Logger } from '@/app/utils/logger';
+
+const logger = new Logger("MCPPrompts");
+
+export async function listServerPrompts(server: string): Promise<MCPPromptSummary[]> {
+  const prompts = await MCPServerManager.getInstance(server).executeWithConnection(async client =>
+    (await client.listPrompts()).prompts
+  );
+
+  return prompts.map(prompt => ({
+    server,
+    name: prompt.name,
+    title: prompt.title,
+    description: prompt.description,
+    arguments: prompt.arguments || []
+  }));
+}
+
+// Prompts of every enabled server. Servers that don't offer prompts or can't be reached
+// are skipped, so one bad server doesn't hide the rest
+export async function listMCPPrompts(): Promise<MCPPromptSummary[]> {
+  const perServer = await Promise.all(getEnabledMCPServerConfigs().map(async ({ id }) => {
+    const { capabilities } = MCPServerManager.getInstance(id).getState();
+    if (capabilities && !capabilities.prompts) return [];
+
+    try {
+      return await listServerPrompts(id);
+    } catch (error) {
+      logger.warn(`Failed to list prompts from MCP server ${id}`, { error: String(error) });
+      return [];
+    }
+  }));
+
+  return perServer.flat();
+}
+
+// Fills in a prompt's arguments and returns its messages ready to add to the conversation
+export async function getMCPPromptMessages(
+  server: string,
+  name: string,
+  args: Record<string, string>
+): Promise<ChatMessage[]> {
+  const result = await MCPServerManager.getInstance(server).executeWithConnection(client =>
+    client.getPrompt({ name, arguments: args })
+  );
+
+  const timestamp = new Date();
+  return result.messages.map(message => ({
+    role: message.role,
+    content: [toChatContent(message.content)],
+    timestamp
+  }));
+}
+
+// Embedded resources are attached like resources picked in the chat, images become vision
+// input, and anything the providers can't take (audio, other binaries) is described instead
+function toChatContent(content: PromptMessage['content']): ChatContent {
+  switch (content.type) {
+    case 'text':
+      return { type: 'text', content: content.text };
+
+    case 'image':
+      return IMAGE_TYPES.includes(content.mimeType)
+        ? { type: 'image', content: { base64: content.data, mimeType: content.mimeType } }
+        : { type: 'text', content: `[${content.mimeType} image omitted]` };
+
+    case 'audio':
+      return { type: 'text', content: `[${content.mimeType} audio omitted]` };
+
+    case 'resource_link':
+      return { type: 'text', content: `Resource ${content.name}: ${content.uri}` };
+
+    case 'resource': {
+      const { resource } = content;
+      try {
+        return resourceAttachment(resource).content;
+      } catch {
+        return { type: 'text', content: `[Resource ${resource.uri} (${resource.mimeType || 'binary'}) omitted]` };
+      }
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import { MCPResourceContents, MCPResourceSummary } from '@/lib/types/mcp';
+import { MCPServerManager } from './mcp-server';
+import { getEnabledMCPServerConfigs } from './mcpServerConfig';
+import { Logger } from '@/app/utils/logger';
+
+const logger = new Logger("MCPResources");
+
+export async function listServerResources(server: string): Promise<MCPResourceSummary[]> {
+  const resources = await MCPServerManager.getInstance(server).executeWithConnection(async client =>
+    (await client.listResources()).resources
+  );
+
+  return resources.map(resource => ({
+    server,
+    uri: resource.uri,
+    name: resource.name,
+    title: resource.title,
+    description: resource.description,
+    mimeType: resource.mimeType
+  }));
+}
+
+// Resources of every enabled server. Servers that don't offer resources or can't be reached
+// are skipped, so one bad server doesn't hide the rest
+export async function listMCPResources(): Promise<MCPResourceSummary[]> {
+  const perServer = await Promise.all(getEnabledMCPServerConfigs().map(async ({ id }) => {
+    const { capabilities } = MCPServerManager.getInstance(id).getState();
+    if (capabilities && !capabilities.resources) return [];
+
+    try {
+      return await listServerResources(id);
+    } catch (error) {
+      logger.warn(`Failed to list resources from MCP server ${id}`, { error: String(error) });
+      return [];
+    }
+  }));
+
+  return perServer.flat();
+}
+
+// A resource can come back in several parts, e.g. each file under a directory URI
+export async function readMCPResource(server: string, uri: string): Promise<MCPResourceContents[]> {
+  const result = await MCPServerManager.getInstance(server).executeWithConnection(client =>
+    client.readResource({ uri })
+  );
+
+  return result.contents.map(contents => ({
+    uri: contents.uri,
+    mimeType: contents.mimeType,
+    ...('text' in contents && typeof contents.text === 'string' && { text: contents.text }),
+    ...('blob' in contents && typeof contents.blob === 'string' && { blob: contents.blob })
+  }));
+}
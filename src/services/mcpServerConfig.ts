@@ -0,0 +1,245 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { extname } from 'path';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { z } from 'zod/v4';
+import { MCPServerConfig } from '@/lib/types/mcp';
+import { env } from '@/app/config/env';
+import { Logger } from '@/app/utils/logger';
+
+const logger = new Logger("MCPServerConfig");
+
+const serverBaseSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9_-]*$/i, 'IDs may only contain letters, digits, "-" and "_"'),
+  name: z.string().optional(),
+  enabled: z.boolean().optional().default(true),
+  timeoutMs: z.number().int().min(1).optional()
+});
+
+const serverSchema = z.discriminatedUnion('transport', [
+  serverBaseSchema.extend({
+    transport: z.literal('http'),
+    url: z.string().url(),
+    headers: z.record(z.string(), z.string()).optional(),
+    bearerToken: z.string().optional(),
+    oauth: z.object({
+      clientId: z.string().optional(),
+      clientSecret: z.string().optional(),
+      clientName: z.string().optional(),
+      scope: z.string().optional()
+    }).optional()
+  }),
+  serverBaseSchema.extend({
+    transport: z.literal('stdio'),
+    command: z.string().min(1),
+    args: z.array(z.string()).optional().default([]),
+    env: z.record(z.string(), z.string()).optional(),
+    cwd: z.string().optional()
+  })
+]);
+
+// Bad server settings from the config file or the management API
+export class MCPServerConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MCPServerConfigError';
+  }
+}
+
+type RawServer = Record<string, unknown>;
+
+// Entries as written, with "${NAME}" placeholders intact, so saving never writes secrets to disk
+let rawServers: RawServer[] | null = null;
+let servers: MCPServerConfig[] | null = null;
+
+// "${NAME}" in any string is replaced with that environment variable, so tokens and
+// other secrets can stay out of the config file
+function interpolateEnv(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{(\w+)\}/g, (_, name: string) => process.env[name] ?? '');
+  }
+  if (Array.isArray(value)) {
+    return value.map(interpolateEnv);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, interpolateEnv(item)]));
+  }
+  return value;
+}
+
+function hasPlaceholder(value: unknown): boolean {
+  if (typeof value === 'string') {
+    return /\$\{\w+\}/.test(value);
+  }
+  if (value && typeof value === 'object') {
+    return Object.values(value).some(hasPlaceholder);
+  }
+  return false;
+}
+
+// Settings from the management API are used as given. A placeholder there would expand to
+// this host's secrets, e.g. an API key in a URL pointing elsewhere, once the file is reloaded
+function assertNoPlaceholders(input: unknown) {
+  if (hasPlaceholder(input)) {
+    throw new MCPServerConfigError('Environment placeholders like ${NAME} can only be used in the config file');
+  }
+}
+
+// Settings that don't change what a stdio server runs
+const STDIO_SAFE_FIELDS = new Set(['name', 'enabled', 'timeoutMs']);
+
+// Stdio servers run commands on this host, so unless MCP_ALLOW_STDIO_API is set the
+// management API can only rename, switch on or off and retime the ones in the config file
+function assertStdioAllowed(server: MCPServerConfig, changedFields: string[]) {
+  if (env.MCP_ALLOW_STDIO_API || server.transport !== 'stdio') return;
+
+  if (changedFields.some(field => !STDIO_SAFE_FIELDS.has(field))) {
+    throw new MCPServerConfigError('Stdio servers can only be added or have their command changed in the config file');
+  }
+}
+
+function parseServer(raw: unknown, source: string): MCPServerConfig {
+  const result = serverSchema.safeParse(interpolateEnv(raw));
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.') || 'server'}: ${issue.message}`);
+    throw new MCPServerConfigError(`Invalid MCP server in ${source}: ${issues.join('; ')}`);
+  }
+  return { ...result.data, name: result.data.name || result.data.id };
+}
+
+function isYaml(path: string): boolean {
+  return ['.yaml', '.yml'].includes(extname(path).toLowerCase());
+}
+
+function loadConfigFile(path: string): RawServer[] {
+  const text = readFileSync(path, 'utf-8');
+  const config = isYaml(path) ? parseYaml(text) : JSON.parse(text);
+
+  if (!Array.isArray(config?.servers)) {
+    throw new MCPServerConfigError(`Invalid MCP server config ${path}: expected a "servers" list`);
+  }
+  logger.info(`Loaded ${config.servers.length} MCP servers from ${path}`);
+  return config.servers;
+}
+
+// Changes made through the management API are written back to the config file; without
+// one they only last until the server restarts
+function save() {
+  const path = env.MCP_SERVERS_CONFIG;
+  if (!path) {
+    logger.warn('MCP_SERVERS_CONFIG is not set, server changes will be lost on restart');
+    return;
+  }
+
+  const config = { servers: rawServers };
+  writeFileSync(path, isYaml(path) ? stringifyYaml(config) : `${JSON.stringify(config, null, 2)}\n`);
+}
+
+function assertUniqueIds(candidates: MCPServerConfig[]) {
+  const seen = new Set<string>();
+  for (const server of candidates) {
+    if (seen.has(server.id)) {
+      throw new MCPServerConfigError(`MCP server ID '${server.id}' is used more than once`);
+    }
+    seen.add(server.id);
+  }
+}
+
+// Without a config file each MCP_SERVERS URL becomes an HTTP server named after its host
+function fromServerUrls(urls: string[]): RawServer[] {
+  const ids = new Set<string>();
+
+  return urls.map(url => {
+    const base = new URL(url).host.replace(/[^a-z0-9]+/gi, '-').toLowerCase();
+    let id = base;
+    for (let suffix = 2; ids.has(id); suffix++) {
+      id = `${base}-${suffix}`;
+    }
+    ids.add(id);
+
+    return { id, name: url, enabled: true, transport: 'http' as const, url };
+  });
+}
+
+function load(): { raw: RawServer[]; parsed: MCPServerConfig[] } {
+  if (!rawServers || !servers) {
+    const source = env.MCP_SERVERS_CONFIG || 'MCP_SERVERS';
+    const raw = env.MCP_SERVERS_CONFIG ? loadConfigFile(env.MCP_SERVERS_CONFIG) : fromServerUrls(env.MCP_SERVERS);
+    const parsed = raw.map(server => parseServer(server, source));
+    assertUniqueIds(parsed);
+
+    rawServers = raw;
+    servers = parsed;
+  }
+  return { raw: rawServers, parsed: servers };
+}
+
+// Every configured server, including disabled ones
+export function getMCPServerConfigs(): MCPServerConfig[] {
+  return load().parsed;
+}
+
+export function getEnabledMCPServerConfigs(): MCPServerConfig[] {
+  return getMCPServerConfigs().filter(server => server.enabled);
+}
+
+export function getMCPServerConfig(id: string): MCPServerConfig | undefined {
+  return getMCPServerConfigs().find(server => server.id === id);
+}
+
+// URL or command line of a server as its entry was written, with "${NAME}" placeholders
+// left in so values interpolated from the environment are never shown
+export function getMCPServerTarget(id: string): string {
+  const raw = load().raw.find(entry => entry.id === id);
+  if (!raw) return '';
+
+  return raw.transport === 'stdio'
+    ? [raw.command, ...(Array.isArray(raw.args) ? raw.args : [])].join(' ')
+    : String(raw.url ?? '');
+}
+
+export function addMCPServerConfig(input: unknown): MCPServerConfig {
+  const { raw, parsed } = load();
+  assertNoPlaceholders(input);
+  const server = parseServer(input, 'request');
+  assertStdioAllowed(server, ['transport']);
+  if (parsed.some(existing => existing.id === server.id)) {
+    throw new MCPServerConfigError(`Server '${server.id}' already exists`);
+  }
+
+  rawServers = [...raw, input as RawServer];
+  servers = [...parsed, server];
+  save();
+  return server;
+}
+
+// The ID can't be changed, since caches and managers are keyed by it
+export function updateMCPServerConfig(id: string, changes: Record<string, unknown>): MCPServerConfig {
+  const { raw, parsed } = load();
+  const index = parsed.findIndex(server => server.id === id);
+  if (index === -1) {
+    throw new MCPServerConfigError(`Server '${id}' not found`);
+  }
+
+  assertNoPlaceholders(changes);
+  // A server switched from HTTP to stdio is checked like a new one
+  assertStdioAllowed(parsed[index], Object.keys(changes));
+  const updatedRaw = { ...raw[index], ...changes, id };
+  const server = parseServer(updatedRaw, 'request');
+  assertStdioAllowed(server, Object.keys(changes));
+
+  rawServers = raw.map((entry, i) => i === index ? updatedRaw : entry);
+  servers = parsed.map((entry, i) => i === index ? server : entry);
+  save();
+  return server;
+}
+
+export function removeMCPServerConfig(id: string): boolean {
+  const { raw, parsed } = load();
+  const index = parsed.findIndex(server => server.id === id);
+  if (index === -1) return false;
+
+  rawServers = raw.filter((_, i) => i !== index);
+  servers = parsed.filter((_, i) => i !== index);
+  save();
+  return true;
+}
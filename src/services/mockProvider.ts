@@ -0,0 +1,146 @@
+import { readFileSync } from 'fs';
+import { z } from 'zod/v4';
+import { BaseProvider } from './baseProvider';
+import { ChatMessage, ChatContent, ChatRequestOptions, ModelSpec, ToolCall } from '@/lib/types/chat';
+import { env } from "@/app/config/env";
+import { Logger } from "@/app/utils/logger";
+
+const logger = new Logger("MockProvider");
+
+const scriptedContentSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('text'), content: z.string() }),
+  z.object({ type: z.literal('thinking'), content: z.string() }),
+  z.object({ type: z.literal('error'), content: z.string() }),
+  z.object({
+    type: z.literal('tool'),
+    content: z.object({
+      id: z.string().optional(),
+      name: z.string(),
+      input: z.record(z.string(), z.unknown()).optional().default({})
+    })
+  })
+]);
+
+// A reply is either matched by a regex against the last message of the request,
+// or, without a pattern, played back in file order. `throw` makes the call fail
+// as if the vendor API had returned an error
+const scriptedResponseSchema = z.object({
+  match: z.string().optional(),
+  flags: z.string().optional(),
+  content: z.array(scriptedContentSchema).optional().default([]),
+  throw: z.string().optional()
+});
+
+const fixtureSchema = z.object({
+  responses: z.array(scriptedResponseSchema)
+});
+
+type ScriptedResponse = z.infer<typeof scriptedResponseSchema>;
+
+// Replays scripted replies from MOCK_PROVIDER_FIXTURE so DynamicFlow, consent and the
+// UI can be exercised offline. Regex matches are checked first, in file order; any
+// request they don't cover takes the next unmatched reply in the sequence
+export class MockProvider extends BaseProvider {
+  name = 'mock';
+  models = ['mock'];
+  private responses: ScriptedResponse[] | null = null;
+  private sequenceIndex = 0;
+  private toolCallCount = 0;
+
+  protected getApiKey(): string | null {
+    return null;
+  }
+
+  isAvailable(): boolean {
+    return !!env.MOCK_PROVIDER_FIXTURE;
+  }
+
+  // Accepts every kind of input so attachment and thinking flows can be scripted too
+  getModelSpec(model: string): ModelSpec {
+    const spec = super.getModelSpec(model);
+    return { ...spec, capabilities: { ...spec.capabilities, vision: true, thinking: true } };
+  }
+
+  // Start the sequence over, e.g. between integration test cases
+  reset(): void {
+    this.responses = null;
+    this.sequenceIndex = 0;
+    this.toolCallCount = 0;
+  }
+
+  async sendMessage(messages: ChatMessage[], model: string, options?: ChatRequestOptions): Promise<ChatContent[]> {
+    options?.signal?.throwIfAborted();
+
+    const lastMessage = messages[messages.length - 1];
+    const requestText = lastMessage ? this.toRequestText(lastMessage) : '';
+    const response = this.findResponse(requestText);
+
+    if (!response) {
+      logger.warn('No scripted response for request', { requestText: requestText.slice(0, 200) });
+      return [{ type: 'error', content: 'The mock provider has no scripted response for this request.' }];
+    }
+
+    if (response.throw) {
+      throw new Error(response.throw);
+    }
+
+    const content = response.content.map(item => item.type === 'tool'
+      ? { type: 'tool' as const, content: this.toToolCall(item.content) }
+      : item
+    );
+
+    // Usage is estimated so cost accounting can be exercised too
+    options?.onUsage?.({
+      model: this.resolveModel(model),
+      inputTokens: this.estimateTokens(messages),
+      outputTokens: this.estimateTokens([{ role: 'assistant', content, timestamp: new Date() }])
+    });
+
+    return content;
+  }
+
+  private findResponse(requestText: string): ScriptedResponse | undefined {
+    const responses = this.loadFixture();
+
+    const matched = responses.find(response =>
+      response.match !== undefined && new RegExp(response.match, response.flags).test(requestText)
+    );
+    if (matched) return matched;
+
+    const sequence = responses.filter(response => response.match === undefined);
+    return sequence[this.sequenceIndex++];
+  }
+
+  private loadFixture(): ScriptedResponse[] {
+    if (!this.responses) {
+      if (!env.MOCK_PROVIDER_FIXTURE) {
+        throw new Error('MOCK_PROVIDER_FIXTURE is not set');
+      }
+
+      const fixture = fixtureSchema.parse(JSON.parse(readFileSync(env.MOCK_PROVIDER_FIXTURE, 'utf-8')));
+      this.responses = fixture.responses;
+      logger.info(`Loaded ${this.responses.length} scripted responses from ${env.MOCK_PROVIDER_FIXTURE}`);
+    }
+    return this.responses;
+  }
+
+  // IDs are numbered so repeated runs of a script produce the same calls
+  private toToolCall(toolCall: { id?: string; name: string; input: Record<string, unknown> }): ToolCall {
+    return {
+      id: toolCall.id || `mock_call_${++this.toolCallCount}`,
+      name: toolCall.name,
+      input: toolCall.input
+    };
+  }
+
+  // Text of the message the reply answers, including tool results fed back by the agent loop
+  private toRequestText(message: ChatMessage): string {
+    return message.content.map(item => {
+      if (item.type === 'tool') {
+        const toolCall = item.content as ToolCall;
+        return `${toolCall.name}: ${this.toolResultText(toolCall)}`;
+      }
+      return typeof item.content === 'string' ? item.content : '';
+    }).join('\n');
+  }
+}
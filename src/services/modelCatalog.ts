@@ -0,0 +1,25 @@
+import { ProviderCatalogEntry } from '@/lib/types/chat';
+import { ProviderFactory } from './providerFactory';
+
+// Every registered provider with the models it offers and their limits, capabilities
+// and prices. Only available providers are asked for their live model list, so an
+// unconfigured local server isn't contacted
+export async function getModelCatalog(
+  providerNames: string[] = ProviderFactory.getProviderNames()
+): Promise<ProviderCatalogEntry[]> {
+  return Promise.all(providerNames.map(async name => {
+    const provider = ProviderFactory.getProvider(name);
+    if (!provider) {
+      throw new Error(`Provider ${name} not found`);
+    }
+
+    const available = provider.isAvailable();
+    const models = available ? await provider.listModels() : provider.models;
+
+    return {
+      name,
+      available,
+      models: models.map(model => ({ model, ...provider.getModelSpec(model) }))
+    };
+  }));
+}
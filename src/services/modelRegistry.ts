@@ -0,0 +1,72 @@
+import { ModelCapabilities, ModelSpec, TokenUsage } from '@/lib/types/chat';
+
+// Every provider streams and supports native tool calling; vision, thinking and
+// schema-constrained output vary by model
+const TEXT: ModelCapabilities = { vision: false, tools: true, thinking: false, streaming: true, structuredOutput: false };
+const VISION: ModelCapabilities = { ...TEXT, vision: true, structuredOutput: true };
+const VISION_THINKING: ModelCapabilities = { ...VISION, thinking: true };
+
+// Limits, capabilities and list prices (USD per million tokens) for every model the providers
+// expose, keyed by provider name and the model name the UI sends (Claude uses
+// display names, see CLAUDE_MODELS). Gemini 2.5 Pro is priced for prompts up to 200K tokens
+const MODEL_REGISTRY: Record<string, Record<string, ModelSpec>> = {
+  openai: {
+    'gpt-3.5-turbo': { contextWindow: 16385, maxOutputTokens: 4096, capabilities: TEXT, pricing: { inputPerMillion: 0.5, outputPerMillion: 1.5 } },
+    'gpt-3.5-turbo-16k': { contextWindow: 16385, maxOutputTokens: 4096, capabilities: TEXT, pricing: { inputPerMillion: 3, outputPerMillion: 4 } },
+    'gpt-4o': { contextWindow: 128000, maxOutputTokens: 16384, capabilities: VISION, pricing: { inputPerMillion: 2.5, outputPerMillion: 10 } },
+    'gpt-4o-mini': { contextWindow: 128000, maxOutputTokens: 16384, capabilities: VISION, pricing: { inputPerMillion: 0.15, outputPerMillion: 0.6 } }
+  },
+  claude: {
+    'Claude-Haiku-3': { contextWindow: 200000, maxOutputTokens: 4096, capabilities: VISION, pricing: { inputPerMillion: 0.25, outputPerMillion: 1.25 } },
+    'Claude-Haiku-3-5': { contextWindow: 200000, maxOutputTokens: 8192, capabilities: VISION, pricing: { inputPerMillion: 0.8, outputPerMillion: 4 } },
+    // Newer models allow longer replies, but non-streaming requests above 8K output are rejected by the SDK
+    'Claude-Sonnet-4': { contextWindow: 200000, maxOutputTokens: 8192, capabilities: VISION_THINKING, pricing: { inputPerMillion: 3, outputPerMillion: 15 } },
+    'Claude-Sonnet-3-7': { contextWindow: 200000, maxOutputTokens: 8192, capabilities: VISION_THINKING, pricing: { inputPerMillion: 3, outputPerMillion: 15 } },
+    'Claude-Opus-4': { contextWindow: 200000, maxOutputTokens: 8192, capabilities: VISION_THINKING, pricing: { inputPerMillion: 15, outputPerMillion: 75 } }
+  },
+  gemini: {
+    'gemini-2.5-flash': { contextWindow: 1048576, maxOutputTokens: 65536, capabilities: VISION_THINKING, pricing: { inputPerMillion: 0.3, outputPerMillion: 2.5 } },
+    'gemini-2.5-flash-lite': { contextWindow: 1048576, maxOutputTokens: 65536, capabilities: VISION_THINKING, pricing: { inputPerMillion: 0.1, outputPerMillion: 0.4 } },
+    'gemini-2.5-pro': { contextWindow: 1048576, maxOutputTokens: 65536, capabilities: VISION_THINKING, pricing: { inputPerMillion: 1.25, outputPerMillion: 10 } }
+  }
+};
+
+// Conservative limits for models the registry doesn't know about
+const DEFAULT_MODEL_SPEC: ModelSpec = { contextWindow: 8192, maxOutputTokens: 2048, capabilities: TEXT };
+
+// Models the registry lists for a provider, in the order they are offered
+export function getRegisteredModels(providerName: string): string[] {
+  return Object.keys(MODEL_REGISTRY[providerName] || {});
+}
+
+export function getModelSpec(providerName: string, model: string): ModelSpec {
+  return MODEL_REGISTRY[providerName]?.[model] || DEFAULT_MODEL_SPEC;
+}
+
+// The provider's registered model closest to spec: it must offer the same capabilities,
+// and among those the one nearest in price is picked. Undefined if none qualifies
+export function findEquivalentModel(providerName: string, spec: ModelSpec): string | undefined {
+  const required = (Object.keys(spec.capabilities) as (keyof ModelCapabilities)[])
+    .filter(capability => spec.capabilities[capability]);
+  const price = spec.pricing?.inputPerMillion;
+
+  const matches = getRegisteredModels(providerName)
+    .map(model => ({ model, spec: getModelSpec(providerName, model) }))
+    .filter(candidate => required.every(capability => candidate.spec.capabilities[capability]));
+
+  if (price === undefined) return matches[0]?.model;
+
+  // Compared on a log scale, so a model at half the price is as close as one at double
+  const distance = (candidate: ModelSpec) => candidate.pricing
+    ? Math.abs(Math.log(candidate.pricing.inputPerMillion / price))
+    : Infinity;
+  return matches.sort((a, b) => distance(a.spec) - distance(b.spec))[0]?.model;
+}
+
+// Cost in USD of a call, or 0 when the model has no price in the registry
+export function calculateCost(providerName: string, usage: TokenUsage): number {
+  const pricing = getModelSpec(providerName, usage.model).pricing;
+  if (!pricing) return 0;
+
+  return (usage.inputTokens * pricing.inputPerMillion + usage.outputTokens * pricing.outputPerMillion) / 1000000;
+}
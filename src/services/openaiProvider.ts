@@ -1,77 +1,239 @@
+import OpenAI from 'openai';
+import type {
+  ChatCompletion,
+  ChatCompletionCreateParamsNonStreaming,
+  ChatCompletionMessageParam
+} from 'openai/resources/chat/completions';
 import { BaseProvider } from './baseProvider';
-import { ChatMessage, ChatContent } from '@/lib/types/chat';
+import { getRegisteredModels } from './modelRegistry';
+import {
+  ChatMessage,
+  ChatContent,
+  ChatRequestOptions,
+  ChatStreamDelta,
+  ToolCall
+} from '@/lib/types/chat';
 import { env } from "@/app/config/env";
 import { Logger } from "@/app/utils/logger";
-import { DynamicFlow } from '@/lib/interfaces/DynamicFlowInterface';
-import { DynamicDiscovery } from '@/lib/interfaces/DynamicDiscoveryInterface';
-import { DynamicExecution } from '@/lib/interfaces/DynamicExecutionInterface';
-import { LLMFormatting } from '@/lib/interfaces/LLMFormattingInterface';
-import { Transparency } from '@/lib/interfaces/TransparencyInterface';
-import { Consent } from '@/lib/interfaces/ConsentInterface';
 
 const logger = new Logger("OpenAIProvider");
 
 export class OpenAIProvider extends BaseProvider {
   name = 'openai';
-  models = ['gpt-3.5-turbo', 'gpt-3.5-turbo-16k'];
-  private dynamicFlow: DynamicFlow; 
-
-  constructor() {
-    super();
-    // Initialize DynamicFlow with all dependencies
-    this.dynamicFlow = new (DynamicFlow as any)(
-      new (DynamicDiscovery as any)(),
-      new (DynamicExecution as any)(),
-      new (LLMFormatting as any)(),
-      new (Transparency as any)(),
-      new (Consent as any)()
-    );
-  }
+  models = getRegisteredModels('openai');
+  private client: OpenAI | null = null;
 
   protected getApiKey(): string | null {
     return env.OPENAI_API_KEY || null;
   }
 
-  async sendMessage(messages: ChatMessage[], model: string): Promise<ChatContent[]> {
+  protected getBaseUrl(): string | undefined {
+    return env.OPENAI_BASE_URL;
+  }
+
+  // Lazily create the SDK client so a missing key only fails when the provider is used
+  protected getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({
+        apiKey: this.getApiKey() ?? undefined,
+        baseURL: this.getBaseUrl()
+      });
+    }
+    return this.client;
+  }
+
+  async sendMessage(messages: ChatMessage[], model: string, options?: ChatRequestOptions): Promise<ChatContent[]> {
+    const request = this.buildRequest(messages, model, options);
+
     try {
-      // Extract user request from messages
-      const userRequest = this.extractUserRequest(messages);
-      
-      if (!userRequest) {
-        return [{
-          type: 'text',
-          content: 'I couldn\'t understand your request. Please try again.'
-        }];
+      const completion = await this.getClient().chat.completions.create(request, { signal: options?.signal });
+      if (completion.usage) {
+        options?.onUsage?.({
+          model: request.model,
+          inputTokens: completion.usage.prompt_tokens,
+          outputTokens: completion.usage.completion_tokens
+        });
       }
-      
-      // Delegate to DynamicFlow for tool orchestration
-      const response = await this.dynamicFlow.processUserRequest(userRequest, model);
-      
-      return [{
-        type: 'text',
-        content: response
-      }];
+      return this.toChatContent(completion);
     } catch (error) {
-      logger.error('OpenAI provider error:', error);
-      return [{
-        type: 'text',
-        content: `I encountered an error: ${error instanceof Error ? error.message : 'Unknown error'}`
-      }];
+      logger.error('OpenAI chat completion failed:', error, { model: request.model });
+      throw error;
+    }
+  }
+
+  async *streamMessage(messages: ChatMessage[], model: string, options?: ChatRequestOptions): AsyncIterable<ChatStreamDelta> {
+    const request = this.buildRequest(messages, model, options);
+    // Tool call arguments arrive as JSON fragments keyed by the call's index
+    const pendingToolCalls = new Map<number, { id: string; name: string; args: string }>();
+
+    try {
+      const stream = await this.getClient().chat.completions.create({
+        ...request,
+        stream: true,
+        stream_options: { include_usage: true }
+      }, { signal: options?.signal });
+
+      for await (const chunk of stream) {
+        // With include_usage the final chunk has no choices, only the totals
+        if (chunk.usage) {
+          options?.onUsage?.({
+            model: request.model,
+            inputTokens: chunk.usage.prompt_tokens,
+            outputTokens: chunk.usage.completion_tokens
+          });
+        }
+
+        const delta = chunk.choices[0]?.delta;
+        if (!delta) continue;
+
+        if (delta.content) {
+          yield { type: 'text', content: delta.content };
+        }
+
+        if (delta.refusal) {
+          yield { type: 'text', content: delta.refusal };
+        }
+
+        for (const toolCallDelta of delta.tool_calls || []) {
+          let pending = pendingToolCalls.get(toolCallDelta.index);
+          if (!pending) {
+            pending = {
+              id: toolCallDelta.id || `call_${toolCallDelta.index}`,
+              name: toolCallDelta.function?.name || '',
+              args: ''
+            };
+            pendingToolCalls.set(toolCallDelta.index, pending);
+            yield { type: 'tool_start', content: { id: pending.id, name: pending.name, input: {} } };
+          }
+          pending.args += toolCallDelta.function?.arguments || '';
+        }
+      }
+    } catch (error) {
+      logger.error('OpenAI chat completion stream failed:', error, { model: request.model });
+      throw error;
+    }
+
+    for (const pending of pendingToolCalls.values()) {
+      const toolCall: ToolCall = {
+        id: pending.id,
+        name: pending.name,
+        input: this.parseArguments(pending.args)
+      };
+      yield { type: 'tool_finish', content: toolCall };
     }
   }
 
-  private extractUserRequest(messages: ChatMessage[]): string {
-    // Extract the user's request from the conversation
-    const userMessages = messages.filter(msg => msg.role === 'user');
-    const lastUserMessage = userMessages[userMessages.length - 1];
-    
-    if (lastUserMessage && lastUserMessage.content.length > 0) {
-      const content = lastUserMessage.content[0];
-      if (content.type === 'text') {
-        return content.content as string;
+  private buildRequest(
+    messages: ChatMessage[],
+    model: string,
+    options?: ChatRequestOptions
+  ): ChatCompletionCreateParamsNonStreaming {
+    messages = this.prepareImages(messages, model);
+    const generation = options?.generation;
+
+    return {
+      model: this.resolveModel(model),
+      messages: this.toOpenAIMessages(this.withSystemPrompt(messages, options)),
+      ...(generation?.temperature !== undefined && { temperature: generation.temperature }),
+      ...(generation?.maxTokens && { max_tokens: Math.min(generation.maxTokens, this.getModelSpec(model).maxOutputTokens) }),
+      // OpenAI accepts at most four stop sequences
+      ...(generation?.stopSequences?.length && { stop: generation.stopSequences.slice(0, 4) }),
+      ...(options?.responseFormat && {
+        // Older models and most local servers only offer JSON mode, which can't enforce the schema
+        response_format: this.getModelSpec(model).capabilities.structuredOutput
+          ? { type: 'json_schema' as const, json_schema: { name: options.responseFormat.name, schema: options.responseFormat.schema } }
+          : { type: 'json_object' as const }
+      }),
+      ...(options?.tools?.length && {
+        tools: options.tools.map(tool => ({
+          type: 'function' as const,
+          function: {
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.inputSchema
+          }
+        }))
+      })
+    };
+  }
+
+  private toOpenAIMessages(messages: ChatMessage[]): ChatCompletionMessageParam[] {
+    const openAIMessages: ChatCompletionMessageParam[] = [];
+
+    for (const msg of messages) {
+      const images = msg.role === 'user' ? this.getImages(msg.content) : [];
+      if (images.length > 0) {
+        const text = this.flattenContent(msg.content);
+        openAIMessages.push({
+          role: 'user',
+          content: [
+            ...(text ? [{ type: 'text' as const, text }] : []),
+            ...images.map(image => ({ type: 'image_url' as const, image_url: { url: this.toImageUrl(image) } }))
+          ]
+        });
+        continue;
+      }
+
+      if (msg.role !== 'assistant') {
+        const content = this.flattenContent(msg.content);
+        if (content) openAIMessages.push({ role: msg.role, content });
+        continue;
+      }
+
+      // Each round of tool calls is followed by one 'tool' message per call
+      for (const turn of this.toToolTurns(msg.content)) {
+        openAIMessages.push({
+          role: 'assistant',
+          content: turn.text || null,
+          ...(turn.toolCalls.length > 0 && {
+            tool_calls: turn.toolCalls.map(toolCall => ({
+              id: toolCall.id,
+              type: 'function' as const,
+              function: { name: toolCall.name, arguments: JSON.stringify(toolCall.input ?? {}) }
+            }))
+          })
+        });
+
+        for (const toolCall of turn.toolCalls) {
+          openAIMessages.push({
+            role: 'tool',
+            tool_call_id: toolCall.id,
+            content: this.toolResultText(toolCall)
+          });
+        }
       }
     }
-    
-    return '';
+
+    return openAIMessages;
+  }
+
+  private toChatContent(completion: ChatCompletion): ChatContent[] {
+    const message = completion.choices[0]?.message;
+    if (!message) {
+      return [];
+    }
+
+    const content: ChatContent[] = [];
+
+    if (message.content) {
+      content.push({ type: 'text', content: message.content });
+    }
+
+    if (message.refusal) {
+      content.push({ type: 'text', content: message.refusal });
+    }
+
+    for (const toolCall of message.tool_calls || []) {
+      content.push({
+        type: 'tool',
+        content: {
+          id: toolCall.id,
+          name: toolCall.function.name,
+          input: this.parseArguments(toolCall.function.arguments)
+        }
+      });
+    }
+
+    return content;
   }
 }
@@ -2,6 +2,8 @@ import { ChatProvider } from '@/lib/types/chat';
 import { OpenAIProvider } from '@/services/openaiProvider';
 import { ClaudeProvider } from '@/services/claudeProvider';
 import { GeminiProvider } from '@/services/geminiProvider';
+import { LocalProvider } from '@/services/localProvider';
+import { MockProvider } from '@/services/mockProvider';
 
 export class ProviderFactory {
   private static providers: Map<string, ChatProvider> = new Map();
@@ -18,6 +20,12 @@ export class ProviderFactory {
         case 'gemini':
           this.providers.set(name, new GeminiProvider());
           break;
+        case 'local':
+          this.providers.set(name, new LocalProvider());
+          break;
+        case 'mock':
+          this.providers.set(name, new MockProvider());
+          break;
         default:
           return null;
       }
@@ -25,8 +33,12 @@ export class ProviderFactory {
     return this.providers.get(name) || null;
   }
 
+  static getProviderNames(): string[] {
+    return ['openai', 'claude', 'gemini', 'local', 'mock'];
+  }
+
   static getAvailableProviders(): string[] {
-    return ['openai', 'claude', 'gemini'].filter(name => {
+    return this.getProviderNames().filter(name => {
       const provider = this.getProvider(name);
       return provider?.isAvailable() || false;
     });
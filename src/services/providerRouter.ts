@@ -0,0 +1,311 @@
+import {
+  AnsweredBy,
+  ChatMessage,
+  ChatContent,
+  ChatProvider,
+  ChatRequestOptions,
+  ChatStreamDelta,
+  ModelSpec
+} from '@/lib/types/chat';
+import { ProviderFactory } from './providerFactory';
+import { calculateCost, findEquivalentModel } from './modelRegistry';
+import { GenerationContext } from './generationContext';
+import { env } from "@/app/config/env";
+import { Logger } from "@/app/utils/logger";
+import { latestUserHasImages } from "@/app/utils/chatContent";
+
+const logger = new Logger("ProviderRouter");
+
+interface RouteCandidate {
+  provider: string;
+  model: string;
+}
+
+// Running health of one provider/model pair, kept in memory for the server's lifetime
+interface ProviderMetrics {
+  calls: number;
+  successes: number;
+  // Exponentially weighted averages, so recent calls count most
+  latencyMs: number;
+  costPerCall: number;
+  rateLimitedUntil: number;
+}
+
+// Weight of the latest observation in the latency and cost averages
+const SMOOTHING = 0.3;
+
+// Picks the provider/model for each vendor call from success rate, latency, cost and
+// rate limits, and fails over along the fallback chain on 429s, 5xx and network errors
+export class ProviderRouter {
+  private static metrics: Map<string, ProviderMetrics> = new Map();
+
+  // 'auto' ranks the whole fallback chain; a named provider goes first and falls back to the chain
+  static route(providerName: string): ChatProvider | null {
+    if (providerName !== 'auto' && !ProviderFactory.getProvider(providerName)) {
+      return null;
+    }
+    return new RoutedProvider(providerName);
+  }
+
+  static getCandidates(providerName: string, model: string): RouteCandidate[] {
+    const chain = this.getFallbackChain();
+
+    if (providerName === 'auto') {
+      return this.rank(chain);
+    }
+
+    // Fallbacks without a model from PROVIDER_FALLBACK_CHAIN get the one closest to the
+    // user's choice, rather than whatever their provider defaults to
+    const requested = ProviderFactory.getProvider(providerName)!.getModelSpec(model);
+    const fallbacks = chain
+      .filter(candidate => candidate.provider !== providerName)
+      .map(candidate => candidate.model === 'default'
+        ? { ...candidate, model: findEquivalentModel(candidate.provider, requested) || 'default' }
+        : candidate);
+
+    return [
+      { provider: providerName, model },
+      ...this.rank(fallbacks)
+    ];
+  }
+
+  // Who answered a turn: the route it was pinned to or, when every reply came from cache,
+  // where it would have gone. 'default' is reported as the model it stands for
+  static answeredBy(providerName: string, model: string, route?: RouteCandidate): AnsweredBy | undefined {
+    const candidate = route ?? this.getCandidates(providerName, model)[0];
+    if (!candidate) return undefined;
+
+    const isDefault = !candidate.model || candidate.model === 'default' || candidate.model === 'auto';
+    const resolved = isDefault ? ProviderFactory.getProvider(candidate.provider)?.models[0] : candidate.model;
+    return { provider: candidate.provider, model: resolved || candidate.model };
+  }
+
+  static recordSuccess(candidate: RouteCandidate, latencyMs: number): void {
+    const metrics = this.getMetrics(candidate);
+    metrics.calls++;
+    metrics.successes++;
+    metrics.latencyMs = metrics.calls === 1 ? latencyMs : metrics.latencyMs * (1 - SMOOTHING) + latencyMs * SMOOTHING;
+  }
+
+  static recordFailure(candidate: RouteCandidate, status: number | undefined, retryAfterMs: number | undefined): void {
+    const metrics = this.getMetrics(candidate);
+    metrics.calls++;
+
+    if (status === 429) {
+      metrics.rateLimitedUntil = Date.now() + (retryAfterMs ?? env.RATE_LIMIT_COOLDOWN_MS);
+    }
+  }
+
+  static recordCost(candidate: RouteCandidate, cost: number): void {
+    const metrics = this.getMetrics(candidate);
+    metrics.costPerCall = metrics.costPerCall === 0 ? cost : metrics.costPerCall * (1 - SMOOTHING) + cost * SMOOTHING;
+  }
+
+  // PROVIDER_FALLBACK_CHAIN ("provider:model,..."), or every configured provider on its default model
+  private static getFallbackChain(): RouteCandidate[] {
+    const configured = env.PROVIDER_FALLBACK_CHAIN.map(entry => {
+      const [provider, ...model] = entry.split(':');
+      return { provider: provider.trim(), model: model.join(':').trim() || 'default' };
+    });
+
+    const chain = configured.length > 0
+      ? configured
+      : ProviderFactory.getAvailableProviders()
+        .filter(provider => provider !== 'mock')
+        .map(provider => ({ provider, model: 'default' }));
+
+    return chain.filter(candidate => ProviderFactory.getProvider(candidate.provider)?.isAvailable());
+  }
+
+  // Best first: rate-limited pairs go last, the rest by success rate with small
+  // penalties for being slower or pricier than the other candidates. Pairs with no
+  // history score as healthy, so new providers get tried
+  private static rank(candidates: RouteCandidate[]): RouteCandidate[] {
+    const now = Date.now();
+    const stats = candidates.map(candidate => this.getMetrics(candidate));
+    const maxLatency = Math.max(1, ...stats.map(metrics => metrics.latencyMs));
+    const maxCost = Math.max(Number.EPSILON, ...stats.map(metrics => metrics.costPerCall));
+
+    const scored = candidates.map((candidate, index) => {
+      const metrics = stats[index];
+      const successRate = (metrics.successes + 1) / (metrics.calls + 2);
+      const score = successRate
+        - 0.1 * (metrics.latencyMs / maxLatency)
+        - 0.1 * (metrics.costPerCall / maxCost);
+
+      return { candidate, score, rateLimited: metrics.rateLimitedUntil > now };
+    });
+
+    // Array.sort is stable, so equal scores keep the chain's order
+    return scored
+      .sort((a, b) => Number(a.rateLimited) - Number(b.rateLimited) || b.score - a.score)
+      .map(item => item.candidate);
+  }
+
+  private static getMetrics(candidate: RouteCandidate): ProviderMetrics {
+    const key = `${candidate.provider}/${candidate.model}`;
+    if (!this.metrics.has(key)) {
+      this.metrics.set(key, { calls: 0, successes: 0, latencyMs: 0, costPerCall: 0, rateLimitedUntil: 0 });
+    }
+    return this.metrics.get(key)!;
+  }
+}
+
+// Status code and Retry-After of a vendor error; SDK errors carry a status, network
+// errors and plain Errors (e.g. from the mock provider) may only mention it in the message
+function describeError(error: unknown): { status?: number; retryAfterMs?: number; retryable: boolean } {
+  const details = error as { status?: number; headers?: { get?: (name: string) => string | null } };
+  const status = typeof details?.status === 'number'
+    ? details.status
+    : Number((error instanceof Error ? error.message : '').match(/\b(429|5\d\d)\b/)?.[1]) || undefined;
+
+  const retryAfter = Number(details?.headers?.get?.('retry-after'));
+  const retryAfterMs = retryAfter > 0 ? retryAfter * 1000 : undefined;
+
+  // Connection failures have no status at all and are worth retrying elsewhere too
+  const retryable = status === undefined
+    ? error instanceof Error && /connection|fetch failed|network|timed? ?out|ECONNREFUSED|ECONNRESET|ENOTFOUND/i.test(`${error.name} ${error.message}`)
+    : status === 429 || status >= 500;
+
+  return { status, retryAfterMs, retryable };
+}
+
+// A ChatProvider that sends each call to the best candidate and moves down the
+// fallback chain when a candidate is rate limited or failing. An aborted call is
+// passed straight on, it says nothing about the candidate's health
+class RoutedProvider implements ChatProvider {
+  name: string;
+  models: string[];
+
+  constructor(private readonly providerName: string) {
+    this.name = providerName;
+    this.models = this.primary('default').models;
+  }
+
+  async sendMessage(messages: ChatMessage[], model: string, options?: ChatRequestOptions): Promise<ChatContent[]> {
+    let lastError: unknown = this.noCandidatesError(messages);
+
+    for (const candidate of this.getCandidates(messages, model)) {
+      const started = Date.now();
+      try {
+        const content = await ProviderFactory.getProvider(candidate.provider)!
+          .sendMessage(messages, candidate.model, this.trackOptions(candidate, options));
+        ProviderRouter.recordSuccess(candidate, Date.now() - started);
+        GenerationContext.setRoute(candidate);
+        return content;
+      } catch (error) {
+        lastError = error;
+        if (options?.signal?.aborted || !this.handleFailure(candidate, error)) break;
+      }
+    }
+
+    throw lastError;
+  }
+
+  // A stream can only fail over before its first delta; after that the error is passed on
+  async *streamMessage(messages: ChatMessage[], model: string, options?: ChatRequestOptions): AsyncIterable<ChatStreamDelta> {
+    let lastError: unknown = this.noCandidatesError(messages);
+
+    for (const candidate of this.getCandidates(messages, model)) {
+      const started = Date.now();
+      let streamed = false;
+      try {
+        const stream = ProviderFactory.getProvider(candidate.provider)!
+          .streamMessage(messages, candidate.model, this.trackOptions(candidate, options));
+        for await (const delta of stream) {
+          streamed = true;
+          yield delta;
+        }
+        ProviderRouter.recordSuccess(candidate, Date.now() - started);
+        GenerationContext.setRoute(candidate);
+        return;
+      } catch (error) {
+        lastError = error;
+        if (options?.signal?.aborted || !this.handleFailure(candidate, error) || streamed) break;
+      }
+    }
+
+    throw lastError;
+  }
+
+  async listModels(): Promise<string[]> {
+    return this.primary('default').listModels();
+  }
+
+  // Prompts are sized for the first choice; fallbacks are expected to have similar limits
+  getModelSpec(model: string): ModelSpec {
+    const [candidate] = this.routeCandidates(model);
+    return candidate
+      ? ProviderFactory.getProvider(candidate.provider)!.getModelSpec(candidate.model)
+      : this.primary(model).getModelSpec(model);
+  }
+
+  estimateTokens(input: string | ChatMessage[]): number {
+    return this.primary('default').estimateTokens(input);
+  }
+
+  isAvailable(): boolean {
+    return ProviderRouter.getCandidates(this.providerName, 'default').length > 0;
+  }
+
+  // Fallbacks that can't see the images attached to the latest message are skipped; a
+  // requested provider is still tried first so the user gets its vision error rather than
+  // a silent switch. Earlier images don't matter, providers describe them to text-only models
+  private getCandidates(messages: ChatMessage[], model: string): RouteCandidate[] {
+    const candidates = this.routeCandidates(model);
+    if (!latestUserHasImages(messages)) return candidates;
+
+    return candidates.filter((candidate, index) =>
+      (index === 0 && this.providerName !== 'auto') ||
+      ProviderFactory.getProvider(candidate.provider)!.getModelSpec(candidate.model).capabilities.vision
+    );
+  }
+
+  // Every call of a chat turn goes to the provider and model that answered its first call,
+  // so one reply isn't stitched together from several models and answeredBy stays true.
+  // The rest of the chain remains as fallbacks if that one starts failing
+  private routeCandidates(model: string): RouteCandidate[] {
+    const candidates = ProviderRouter.getCandidates(this.providerName, model);
+    const route = GenerationContext.route();
+    if (!route) return candidates;
+
+    return [
+      route,
+      ...candidates.filter(candidate => candidate.provider !== route.provider || candidate.model !== route.model)
+    ];
+  }
+
+  private noCandidatesError(messages: ChatMessage[]): Error {
+    return new Error(latestUserHasImages(messages)
+      ? 'No available model accepts images. Configure a vision-capable provider or remove the attached images.'
+      : 'No providers are available');
+  }
+
+  private primary(model: string): ChatProvider {
+    const [candidate] = ProviderRouter.getCandidates(this.providerName, model);
+    return ProviderFactory.getProvider(candidate?.provider || this.providerName)
+      || ProviderFactory.getProvider('openai')!;
+  }
+
+  // Feeds each call's cost into the router and labels the usage with the provider that answered
+  private trackOptions(candidate: RouteCandidate, options?: ChatRequestOptions): ChatRequestOptions {
+    return {
+      ...options,
+      onUsage: usage => {
+        ProviderRouter.recordCost(candidate, calculateCost(candidate.provider, usage));
+        options?.onUsage?.({ ...usage, provider: candidate.provider });
+      }
+    };
+  }
+
+  // Records the failure and returns whether the next candidate should be tried
+  private handleFailure(candidate: RouteCandidate, error: unknown): boolean {
+    const { status, retryAfterMs, retryable } = describeError(error);
+    ProviderRouter.recordFailure(candidate, status, retryAfterMs);
+
+    if (retryable) {
+      logger.warn(`${candidate.provider}/${candidate.model} failed (${status ?? 'network error'}), trying next provider`);
+    }
+    return retryable;
+  }
+}
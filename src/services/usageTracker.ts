@@ -0,0 +1,60 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { RequestUsage, TokenUsage, UsageRecord } from '@/lib/types/chat';
+import { cacheService } from './cache';
+import { calculateCost } from './modelRegistry';
+import { Logger } from "@/app/utils/logger";
+
+const logger = new Logger("UsageTracker");
+
+// Collects the usage of every vendor call made while handling one /api/chat request.
+// The request's records live in async context, so the LLMFormatting calls deep inside
+// DynamicFlow are counted without passing a tracker through every method.
+export class UsageTracker {
+  private static storage = new AsyncLocalStorage<UsageRecord[]>();
+
+  // Runs the request and returns what it spent alongside its result
+  static async track<T>(sessionId: string | undefined, handler: () => Promise<T>): Promise<{ result: T; usage: RequestUsage }> {
+    const records: UsageRecord[] = [];
+    const result = await this.storage.run(records, handler);
+    const usage = this.summarize(records);
+
+    if (usage.calls > 0) {
+      try {
+        await cacheService.addUsage(sessionId || 'anonymous', this.today(), usage);
+      } catch (error) {
+        // Usage totals are best effort and must never fail the chat request
+        logger.error('Failed to store usage totals:', error);
+      }
+    }
+
+    return { result, usage };
+  }
+
+  // Callback for ChatRequestOptions.onUsage that prices the call and adds it to the current request
+  static recorder(providerName: string, operation: string): (usage: TokenUsage) => void {
+    return usage => {
+      const records = this.storage.getStore();
+      if (!records) {
+        logger.warn(`Usage reported outside a tracked request (${operation})`);
+        return;
+      }
+
+      const provider = usage.provider || providerName;
+      records.push({ ...usage, provider, operation, cost: calculateCost(provider, usage) });
+    };
+  }
+
+  static today(): string {
+    return new Date().toISOString().slice(0, 10);
+  }
+
+  private static summarize(records: UsageRecord[]): RequestUsage {
+    return records.reduce<RequestUsage>((total, record) => ({
+      calls: total.calls + 1,
+      inputTokens: total.inputTokens + record.inputTokens,
+      outputTokens: total.outputTokens + record.outputTokens,
+      cost: total.cost + record.cost,
+      records: total.records
+    }), { calls: 0, inputTokens: 0, outputTokens: 0, cost: 0, records });
+  }
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { getLatestUserAttachments, getLatestUserText } from '@/app/utils/chatContent';
+import { resourceAttachment } from '@/app/utils/attachments';
+import { ChatMessage } from '@/lib/types/chat';
+
+const attachedFile = { type: 'text' as const, content: 'Attached file notes.txt:\n```\nexit code 1, stop the build\n```', attachment: 'notes.txt' };
+
+describe('latest user message', () => {
+  const messages: ChatMessage[] = [
+    { role: 'user', content: [{ type: 'text', content: 'earlier question' }], timestamp: new Date() },
+    { role: 'assistant', content: [{ type: 'text', content: 'earlier answer' }], timestamp: new Date() },
+    {
+      role: 'user',
+      content: [
+        { type: 'text', content: 'Why did the build fail?' },
+        attachedFile,
+        resourceAttachment({ uri: 'file:///log.txt', text: 'cancelled by user' }).content,
+        { type: 'image', content: { base64: 'AAAA', mimeType: 'image/png' } }
+      ],
+      timestamp: new Date()
+    }
+  ];
+
+  it('takes only what the user typed as the request text', () => {
+    expect(getLatestUserText(messages)).toBe('Why did the build fail?');
+  });
+
+  it('returns attached files, resources and images separately', () => {
+    expect(getLatestUserAttachments(messages).map(item => item.attachment ?? item.type))
+      .toEqual(['notes.txt', 'file:///log.txt', 'image']);
+  });
+
+  it('has no request text when the message is only an attachment', () => {
+    const onlyFile: ChatMessage[] = [{ role: 'user', content: [attachedFile], timestamp: new Date() }];
+
+    expect(getLatestUserText(onlyFile)).toBe('');
+    expect(getLatestUserAttachments(onlyFile)).toEqual([attachedFile]);
+  });
+});
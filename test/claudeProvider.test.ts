@@ -0,0 +1,122 @@
+import { ServerResponse } from 'http';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import type { ClaudeProvider } from '@/services/claudeProvider';
+import { applyDelta } from '@/app/utils/chatContent';
+import { ChatContent, ChatMessage, ToolCall } from '@/lib/types/chat';
+import { HttpStandIn, sendJson, startHttpStandIn } from './helpers/httpStandIn';
+
+const usage = { input_tokens: 10, output_tokens: 5 };
+const tools = [{ name: 'list_directory', description: 'List a folder', inputSchema: { type: 'object' } }];
+const user = (text: string): ChatMessage => ({ role: 'user', content: [{ type: 'text', content: text }], timestamp: new Date() });
+
+function message(content: unknown[]) {
+  return { id: 'msg_1', type: 'message', role: 'assistant', model: 'claude-sonnet-4-20250514', content, stop_reason: 'tool_use', stop_sequence: null, usage };
+}
+
+// The Messages API names every event, unlike Chat Completions
+function sendMessageStream(response: ServerResponse, events: { type: string }[]): void {
+  response.writeHead(200, { 'Content-Type': 'text/event-stream' });
+  for (const event of events) {
+    response.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  }
+  response.end();
+}
+
+// Agent loop history: the model thought, called a tool, and the tool has run
+function afterToolCall(content: ChatContent[]): ChatMessage[] {
+  return [
+    user('What is in this folder?'),
+    {
+      role: 'assistant',
+      content: content.map(item => item.type === 'tool'
+        ? { type: 'tool', content: { ...(item.content as ToolCall), status: 'completed', result: 'a.txt' } }
+        : item),
+      timestamp: new Date()
+    }
+  ];
+}
+
+describe('ClaudeProvider with extended thinking', () => {
+  let api: HttpStandIn;
+  let provider: ClaudeProvider;
+
+  beforeAll(async () => {
+    api = await startHttpStandIn();
+    process.env.ANTHROPIC_API_KEY = 'test-key';
+    process.env.ANTHROPIC_BASE_URL = api.url;
+    process.env.ANTHROPIC_THINKING_BUDGET = '2048';
+    const { ClaudeProvider } = await import('@/services/claudeProvider');
+    provider = new ClaudeProvider();
+  });
+
+  afterAll(async () => {
+    await api.close();
+  });
+
+  beforeEach(() => {
+    api.requests.length = 0;
+  });
+
+  it('sends signed and redacted thinking back ahead of the tool call it led to', async () => {
+    api.respond((_request, response) => sendJson(response, message([
+      { type: 'thinking', thinking: 'I should list the folder.', signature: 'sig-1' },
+      { type: 'redacted_thinking', data: 'encrypted' },
+      { type: 'tool_use', id: 'toolu_1', name: 'list_directory', input: { path: '.' } }
+    ])));
+    const first = await provider.sendMessage([user('What is in this folder?')], 'Claude-Sonnet-4', { tools });
+
+    api.respond((_request, response) => sendJson(response, message([{ type: 'text', text: 'It holds a.txt.' }])));
+    await provider.sendMessage(afterToolCall(first), 'Claude-Sonnet-4', { tools });
+
+    const { body } = api.requests[1];
+    expect(body.thinking).toEqual({ type: 'enabled', budget_tokens: 2048 });
+    expect(body.messages[1]).toEqual({
+      role: 'assistant',
+      content: [
+        { type: 'thinking', thinking: 'I should list the folder.', signature: 'sig-1' },
+        { type: 'redacted_thinking', data: 'encrypted' },
+        { type: 'tool_use', id: 'toolu_1', name: 'list_directory', input: { path: '.' } }
+      ]
+    });
+    expect(body.messages[2].content[0]).toMatchObject({ type: 'tool_result', tool_use_id: 'toolu_1', content: 'a.txt' });
+  });
+
+  it('keeps the signature that streams in after the thinking text', async () => {
+    api.respond((_request, response) => sendMessageStream(response, [
+      { type: 'message_start', message: { ...message([]), usage } },
+      { type: 'content_block_start', index: 0, content_block: { type: 'thinking', thinking: '', signature: '' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'thinking_delta', thinking: 'List it ' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'thinking_delta', thinking: 'first.' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'signature_delta', signature: 'sig-2' } },
+      { type: 'content_block_stop', index: 0 },
+      { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_2', name: 'list_directory', input: {} } },
+      { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"path":"."}' } },
+      { type: 'content_block_stop', index: 1 },
+      { type: 'message_delta', delta: { stop_reason: 'tool_use', stop_sequence: null }, usage: { output_tokens: 9 } },
+      { type: 'message_stop' }
+    ] as { type: string }[]));
+
+    let content: ChatContent[] = [];
+    for await (const delta of provider.streamMessage([user('What is in this folder?')], 'Claude-Sonnet-4', { tools })) {
+      content = applyDelta(content, delta);
+    }
+
+    expect(content).toEqual([
+      { type: 'thinking', content: 'List it first.', signature: 'sig-2' },
+      { type: 'tool', content: { id: 'toolu_2', name: 'list_directory', input: { path: '.' } } }
+    ]);
+  });
+
+  it('leaves thinking out when the request runs without it', async () => {
+    api.respond((_request, response) => sendJson(response, message([{ type: 'text', text: '{}' }])));
+    const history = afterToolCall([
+      { type: 'thinking', content: 'I should list the folder.', signature: 'sig-1' },
+      { type: 'tool', content: { id: 'toolu_1', name: 'list_directory', input: { path: '.' } } }
+    ]);
+
+    await provider.sendMessage(history, 'Claude-Haiku-3-5', { tools });
+
+    expect(api.requests[0].body.thinking).toBeUndefined();
+    expect(api.requests[0].body.messages[1].content.map((block: { type: string }) => block.type)).toEqual(['tool_use']);
+  });
+});
@@ -0,0 +1,86 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { ConcurrencyLimiter as Limiter } from '@/lib/interfaces/DynamicExecutionInterface';
+
+// A task that runs until the test finishes it
+function deferred() {
+  let finish!: () => void;
+  let fail!: (error: Error) => void;
+  const done = new Promise<void>((resolve, reject) => {
+    finish = resolve;
+    fail = reject;
+  });
+  return { done, finish, fail };
+}
+
+// Lets queued continuations run
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('ConcurrencyLimiter', () => {
+  let ConcurrencyLimiter: typeof Limiter;
+
+  beforeAll(async () => {
+    // The cache service connects to Chroma on import; nothing listens here
+    process.env.CHROMA_URL = 'http://127.0.0.1:9';
+    ({ ConcurrencyLimiter } = await import('@/lib/interfaces/DynamicExecutionInterface'));
+  });
+
+  it('runs at most its limit of tasks and starts waiting ones in the order they queued', async () => {
+    const limiter = new ConcurrencyLimiter(2);
+    const tasks = [deferred(), deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    const runs = tasks.map((task, index) => limiter.run(async () => {
+      started.push(index);
+      await task.done;
+      return index;
+    }));
+
+    await settle();
+    expect(started).toEqual([0, 1]);
+
+    tasks[1].finish();
+    await settle();
+    expect(started).toEqual([0, 1, 2]);
+
+    tasks[0].finish();
+    await settle();
+    expect(started).toEqual([0, 1, 2, 3]);
+
+    tasks[2].finish();
+    tasks[3].finish();
+    await expect(Promise.all(runs)).resolves.toEqual([0, 1, 2, 3]);
+  });
+
+  it('gives a freed slot to the task that waited for it before later arrivals', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    const first = deferred();
+    const started: string[] = [];
+
+    const runs = [
+      limiter.run(async () => { started.push('first'); await first.done; }),
+      limiter.run(async () => { started.push('waiting'); })
+    ];
+    await settle();
+
+    first.finish();
+    await runs[0];
+    // Arrives once the slot has been released
+    runs.push(limiter.run(async () => { started.push('newcomer'); }));
+
+    await Promise.all(runs);
+    expect(started).toEqual(['first', 'waiting', 'newcomer']);
+  });
+
+  it('releases the slot of a task that fails', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    const failing = deferred();
+
+    const failed = limiter.run(() => failing.done);
+    const next = limiter.run(async () => 'ran');
+
+    failing.fail(new Error('Tool crashed'));
+
+    await expect(failed).rejects.toThrow('Tool crashed');
+    await expect(next).resolves.toBe('ran');
+  });
+});
@@ -0,0 +1,69 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  headers: IncomingMessage['headers'];
+  body: any;
+}
+
+export type StandInHandler = (request: RecordedRequest, response: ServerResponse) => void;
+
+export interface HttpStandIn {
+  url: string;
+  requests: RecordedRequest[];
+  // Handler for the next requests, replacing the previous one
+  respond(handler: StandInHandler): void;
+  close(): Promise<void>;
+}
+
+// Local HTTP server standing in for a vendor API: records every request with its parsed
+// JSON body and answers with whatever handler the test installed
+export async function startHttpStandIn(): Promise<HttpStandIn> {
+  const requests: RecordedRequest[] = [];
+  let handler: StandInHandler = (_request, response) => {
+    response.writeHead(500).end();
+  };
+
+  const server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => {
+      const request: RecordedRequest = {
+        method: req.method || 'GET',
+        path: req.url || '/',
+        headers: req.headers,
+        body: raw ? JSON.parse(raw) : undefined
+      };
+      requests.push(request);
+      handler(request, res);
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    respond: next => {
+      handler = next;
+    },
+    close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())))
+  };
+}
+
+export function sendJson(response: ServerResponse, body: unknown, status = 200): void {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+// Writes each event as an SSE data line, then the terminating [DONE]
+export function sendEventStream(response: ServerResponse, events: unknown[]): void {
+  response.writeHead(200, { 'Content-Type': 'text/event-stream' });
+  for (const event of events) {
+    response.write(`data: ${JSON.stringify(event)}\n\n`);
+  }
+  response.end('data: [DONE]\n\n');
+}
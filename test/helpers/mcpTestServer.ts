@@ -0,0 +1,71 @@
+import { AddressInfo } from 'net';
+import { Server as HttpServer } from 'http';
+import express, { Express } from 'express';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { CallToolRequestSchema, CallToolResult, ListToolsRequestSchema, Tool } from '@modelcontextprotocol/sdk/types.js';
+
+export interface TestTool extends Tool {
+  handler: (args: Record<string, unknown>) => CallToolResult;
+}
+
+export interface McpTestServer {
+  url: string;
+  calls: { name: string; arguments: Record<string, unknown> }[];
+  close(): Promise<void>;
+}
+
+export async function listen(app: Express): Promise<{ server: HttpServer; url: string }> {
+  const server = await new Promise<HttpServer>(resolve => {
+    const started = app.listen(0, '127.0.0.1', () => resolve(started));
+  });
+  const { port } = server.address() as AddressInfo;
+  return { server, url: `http://127.0.0.1:${port}` };
+}
+
+export function closeServer(server: HttpServer): Promise<void> {
+  server.closeAllConnections();
+  return new Promise((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+}
+
+// Stateless Streamable HTTP MCP server at /mcp offering the given tools. Every request
+// gets a fresh server and transport. `configure` runs once the port is known, before the
+// MCP route is added, so it can mount metadata routes or auth middleware in front of it
+export async function startMcpTestServer(
+  tools: TestTool[],
+  configure?: (app: Express, mcpUrl: URL) => void
+): Promise<McpTestServer> {
+  const calls: McpTestServer['calls'] = [];
+  const app = express();
+  const { server, url } = await listen(app);
+  const mcpUrl = new URL('/mcp', url);
+
+  app.use(express.json());
+  configure?.(app, mcpUrl);
+
+  app.post('/mcp', async (req, res) => {
+    const server = new Server({ name: 'test-server', version: '1.0.0' }, { capabilities: { tools: {} } });
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: tools.map(({ handler: _handler, ...tool }) => tool)
+    }));
+    server.setRequestHandler(CallToolRequestSchema, async request => {
+      const args = request.params.arguments ?? {};
+      calls.push({ name: request.params.name, arguments: args });
+
+      const tool = tools.find(candidate => candidate.name === request.params.name);
+      return tool
+        ? tool.handler(args)
+        : { content: [{ type: 'text', text: `Unknown tool ${request.params.name}` }], isError: true };
+    });
+
+    const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+    res.on('close', () => {
+      transport.close();
+      server.close();
+    });
+    await server.connect(transport);
+    await transport.handleRequest(req, res, req.body);
+  });
+
+  return { url: mcpUrl.toString(), calls, close: () => closeServer(server) };
+}
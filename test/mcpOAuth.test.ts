@@ -0,0 +1,100 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Server as HttpServer } from 'http';
+import express from 'express';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { DemoInMemoryAuthProvider } from '@modelcontextprotocol/sdk/examples/server/demoInMemoryOAuthProvider.js';
+import { createOAuthMetadata, getOAuthProtectedResourceMetadataUrl, mcpAuthMetadataRouter, mcpAuthRouter } from '@modelcontextprotocol/sdk/server/auth/router.js';
+import { requireBearerAuth } from '@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js';
+import type { MCPServerManager } from '@/services/mcp-server';
+import type { GET } from '@/app/api/mcp-oauth/callback/route';
+import { closeServer, listen, McpTestServer, startMcpTestServer } from './helpers/mcpTestServer';
+
+// A protected MCP server and a local authorization server that approves every request
+// straight away, so the whole authorization code flow runs without a browser
+describe('OAuth-protected MCP servers', () => {
+  const provider = new DemoInMemoryAuthProvider();
+  let authServer: HttpServer;
+  let mcp: McpTestServer;
+  let configDir: string;
+  let managers: typeof MCPServerManager;
+  let callback: typeof GET;
+
+  beforeAll(async () => {
+    const authApp = express();
+    const auth = await listen(authApp);
+    authServer = auth.server;
+    const issuerUrl = new URL(auth.url);
+    authApp.use(mcpAuthRouter({ provider, issuerUrl, scopesSupported: ['mcp:tools'] }));
+
+    mcp = await startMcpTestServer([{
+      name: 'whoami',
+      description: 'Says who the caller is',
+      inputSchema: { type: 'object', properties: {} },
+      handler: () => ({ content: [{ type: 'text', text: 'authorized' }] })
+    }], (app, mcpUrl) => {
+      app.use(mcpAuthMetadataRouter({
+        oauthMetadata: createOAuthMetadata({ provider, issuerUrl, scopesSupported: ['mcp:tools'] }),
+        resourceServerUrl: mcpUrl
+      }));
+      app.use('/mcp', requireBearerAuth({ verifier: provider, resourceMetadataUrl: getOAuthProtectedResourceMetadataUrl(mcpUrl) }));
+    });
+
+    configDir = mkdtempSync(join(tmpdir(), 'mcp-oauth-'));
+    const configPath = join(configDir, 'mcp-servers.json');
+    writeFileSync(configPath, JSON.stringify({
+      servers: [{ id: 'protected', transport: 'http', url: mcp.url, oauth: { scope: 'mcp:tools' } }]
+    }));
+
+    process.env.MCP_SERVERS_CONFIG = configPath;
+    process.env.APP_BASE_URL = 'http://localhost:3000';
+    process.env.CHROMA_URL = 'http://127.0.0.1:9';
+
+    ({ MCPServerManager: managers } = await import('@/services/mcp-server'));
+    ({ GET: callback } = await import('@/app/api/mcp-oauth/callback/route'));
+  });
+
+  afterAll(async () => {
+    await managers.shutdownAll();
+    await mcp.close();
+    await closeServer(authServer);
+    rmSync(configDir, { recursive: true, force: true });
+  });
+
+  const listTools = () => managers.getInstance('protected').executeWithConnection(client => client.listTools());
+
+  it('registers, asks for approval, exchanges the code from the callback and then connects', async () => {
+    await expect(listTools()).rejects.toThrow();
+
+    const state = managers.getInstance('protected').getState();
+    expect(state.status).toBe('unauthorized');
+    expect(state.authorizationUrl).toBeDefined();
+
+    const authorizationUrl = new URL(state.authorizationUrl!);
+    expect(authorizationUrl.searchParams.get('redirect_uri')).toBe('http://localhost:3000/api/mcp-oauth/callback');
+    expect(authorizationUrl.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(authorizationUrl.searchParams.get('scope')).toBe('mcp:tools');
+
+    // The demo server approves at once and redirects back with the code and our state
+    const approval = await fetch(authorizationUrl, { redirect: 'manual' });
+    const redirect = approval.headers.get('location')!;
+    expect(new URL(redirect).searchParams.get('code')).toBeTruthy();
+
+    const response = await callback(new Request(redirect));
+    expect(new URL(response.headers.get('location')!).searchParams.get('mcp_authorized')).toBe('protected');
+
+    const { tools } = await listTools();
+    expect(tools.map(tool => tool.name)).toEqual(['whoami']);
+    const connected = managers.getInstance('protected').getState();
+    expect(connected.status).toBe('connected');
+    expect(connected.authorizationUrl).toBeUndefined();
+  });
+
+  it('rejects a callback with an unknown or reused state', async () => {
+    const response = await callback(new Request('http://localhost:3000/api/mcp-oauth/callback?code=abc&state=unknown'));
+
+    expect(new URL(response.headers.get('location')!).searchParams.get('mcp_auth_error'))
+      .toBe('The authorization request expired or was already used');
+  });
+});
@@ -0,0 +1,54 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { GET as ListServers } from '@/app/api/mcp-servers/route';
+import type { GET as GetServer } from '@/app/api/mcp-servers/[id]/route';
+
+describe('server summaries from the management API', () => {
+  let configDir: string;
+  let listServers: typeof ListServers;
+  let getServer: typeof GetServer;
+
+  beforeAll(async () => {
+    configDir = mkdtempSync(join(tmpdir(), 'mcp-summary-'));
+    const configPath = join(configDir, 'mcp-servers.json');
+    writeFileSync(configPath, JSON.stringify({
+      servers: [
+        { id: 'search', transport: 'http', url: 'https://mcp.example.com/mcp?key=${SUMMARY_TEST_SECRET}', enabled: false },
+        { id: 'files', transport: 'stdio', command: 'npx', args: ['server-files', '--token=${SUMMARY_TEST_SECRET}'], enabled: false }
+      ]
+    }));
+
+    process.env.SUMMARY_TEST_SECRET = 'sk-very-secret';
+    process.env.MCP_SERVERS_CONFIG = configPath;
+    process.env.CHROMA_URL = 'http://127.0.0.1:9';
+
+    ({ GET: listServers } = await import('@/app/api/mcp-servers/route'));
+    ({ GET: getServer } = await import('@/app/api/mcp-servers/[id]/route'));
+  });
+
+  afterAll(() => {
+    rmSync(configDir, { recursive: true, force: true });
+  });
+
+  it('shows targets with their placeholders instead of the interpolated secrets', async () => {
+    const response = await listServers();
+    const text = await response.text();
+
+    expect(text).not.toContain('sk-very-secret');
+    const { servers } = JSON.parse(text);
+    expect(servers.map((server: { target: string }) => server.target)).toEqual([
+      'https://mcp.example.com/mcp?key=${SUMMARY_TEST_SECRET}',
+      'npx server-files --token=${SUMMARY_TEST_SECRET}'
+    ]);
+  });
+
+  it('leaves the session ID out of a single server', async () => {
+    const response = await getServer(new Request('http://localhost/api/mcp-servers/search'), { params: Promise.resolve({ id: 'search' }) });
+    const { server } = await response.json();
+
+    expect(server.target).toBe('https://mcp.example.com/mcp?key=${SUMMARY_TEST_SECRET}');
+    expect(server.state).not.toHaveProperty('sessionId');
+  });
+});
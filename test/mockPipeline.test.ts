@@ -0,0 +1,98 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { ChatOrchestrator } from '@/services/chatOrchestrator';
+import type { MCPServerManager } from '@/services/mcp-server';
+import { ChatMessage, ChatStreamDelta, ToolCall } from '@/lib/types/chat';
+import { McpTestServer, startMcpTestServer } from './helpers/mcpTestServer';
+
+const user = (text: string): ChatMessage => ({ role: 'user', content: [{ type: 'text', content: text }], timestamp: new Date() });
+
+// Runs a whole turn offline: the mock provider replays fixtures/mock-provider.example.json
+// and the tool call goes to a local MCP server
+describe('offline chat pipeline with the mock provider', () => {
+  let mcp: McpTestServer;
+  let configDir: string;
+  let orchestrator: typeof ChatOrchestrator;
+  let managers: typeof MCPServerManager;
+
+  beforeAll(async () => {
+    mcp = await startMcpTestServer([{
+      name: 'list_directory',
+      description: 'List files in a directory',
+      inputSchema: { type: 'object', properties: { path: { type: 'string' } }, required: ['path'] },
+      handler: args => ({ content: [{ type: 'text', text: `README.md\npackage.json (in ${args.path})` }] })
+    }]);
+
+    configDir = mkdtempSync(join(tmpdir(), 'mock-pipeline-'));
+    const configPath = join(configDir, 'mcp-servers.json');
+    writeFileSync(configPath, JSON.stringify({ servers: [{ id: 'files', transport: 'http', url: mcp.url }] }));
+
+    process.env.MOCK_PROVIDER_FIXTURE = fileURLToPath(new URL('../fixtures/mock-provider.example.json', import.meta.url));
+    process.env.MCP_SERVERS_CONFIG = configPath;
+    // Nothing listens here, so tool search falls back to matching names and descriptions
+    process.env.CHROMA_URL = 'http://127.0.0.1:9';
+    // Without vendor keys the mock has no fallbacks, so its failures reach the caller
+    delete process.env.OPENAI_API_KEY;
+    delete process.env.ANTHROPIC_API_KEY;
+    delete process.env.GOOGLE_API_KEY;
+
+    ({ ChatOrchestrator: orchestrator } = await import('@/services/chatOrchestrator'));
+    ({ MCPServerManager: managers } = await import('@/services/mcp-server'));
+  });
+
+  afterAll(async () => {
+    await managers.shutdownAll();
+    await mcp.close();
+    rmSync(configDir, { recursive: true, force: true });
+  });
+
+  it('calls the MCP tool the script asks for and answers from its result', async () => {
+    const { content, answeredBy } = await orchestrator.sendMessage('mock', [user('list files')], 'mock');
+
+    expect(mcp.calls).toEqual([{ name: 'list_directory', arguments: { path: '.' } }]);
+
+    const toolCall = content.find(item => item.type === 'tool')?.content as ToolCall;
+    expect(toolCall).toMatchObject({ name: 'list_directory', input: { path: '.' }, status: 'completed' });
+    expect(JSON.stringify(toolCall.result)).toContain('README.md');
+
+    expect(content[content.length - 1]).toEqual({ type: 'text', content: 'Here are the files in the folder you asked about.' });
+    expect(answeredBy).toEqual({ provider: 'mock', model: 'mock' });
+  });
+
+  it('streams tool progress and the scripted answer', async () => {
+    const deltas: ChatStreamDelta[] = [];
+    const answeredBy = await orchestrator.streamMessage('mock', [user('List files in a directory')], 'mock', delta => deltas.push(delta));
+
+    // The model's tool_finish carries the complete arguments, the flow's the result
+    expect(deltas.map(delta => delta.type)).toEqual(['tool_start', 'tool_finish', 'tool_finish', 'text']);
+    expect(deltas[1].content).toMatchObject({ name: 'list_directory', input: { path: '.' } });
+    expect(deltas[2].content).toMatchObject({ name: 'list_directory', status: 'completed' });
+    expect(deltas[3].content).toBe('Here are the files in the folder you asked about.');
+    // The same call as in the previous turn runs again rather than coming from a cache
+    expect(mcp.calls).toHaveLength(2);
+    expect(answeredBy).toEqual({ provider: 'mock', model: 'mock' });
+  });
+
+  it('rejects instead of streaming the failure as a reply', async () => {
+    const deltas: ChatStreamDelta[] = [];
+
+    await expect(orchestrator.streamMessage('mock', [user('Hit the rate limit')], 'mock', delta => deltas.push(delta)))
+      .rejects.toThrow('429 Too Many Requests');
+    expect(deltas.filter(delta => delta.type === 'text' || delta.type === 'error')).toEqual([]);
+  });
+
+  it('stops before running tools once the turn is aborted', async () => {
+    const abort = new AbortController();
+    const callsBefore = mcp.calls.length;
+
+    const turn = orchestrator.streamMessage('mock', [user('list files')], 'mock', delta => {
+      if (delta.type === 'tool_start') abort.abort();
+    }, undefined, abort.signal);
+
+    await expect(turn).rejects.toThrow();
+    expect(mcp.calls).toHaveLength(callsBefore);
+  });
+});
@@ -0,0 +1,172 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import type { OpenAIProvider } from '@/services/openaiProvider';
+import { ChatMessage, ChatStreamDelta, TokenUsage } from '@/lib/types/chat';
+import { HttpStandIn, sendEventStream, sendJson, startHttpStandIn } from './helpers/httpStandIn';
+
+function completion(message: Record<string, unknown>, usage = { prompt_tokens: 12, completion_tokens: 5 }) {
+  return {
+    id: 'chatcmpl-test',
+    object: 'chat.completion',
+    created: 0,
+    model: 'gpt-4o',
+    choices: [{ index: 0, message: { role: 'assistant', refusal: null, ...message }, finish_reason: 'stop' }],
+    usage: { ...usage, total_tokens: usage.prompt_tokens + usage.completion_tokens }
+  };
+}
+
+function chunk(delta: Record<string, unknown>, usage?: Record<string, number>) {
+  return {
+    id: 'chatcmpl-test',
+    object: 'chat.completion.chunk',
+    created: 0,
+    model: 'gpt-4o',
+    choices: usage ? [] : [{ index: 0, delta, finish_reason: null }],
+    ...(usage && { usage })
+  };
+}
+
+const user = (text: string): ChatMessage => ({ role: 'user', content: [{ type: 'text', content: text }], timestamp: new Date() });
+
+describe('OpenAIProvider against a local Chat Completions stand-in', () => {
+  let api: HttpStandIn;
+  let provider: OpenAIProvider;
+
+  beforeAll(async () => {
+    api = await startHttpStandIn();
+    process.env.OPENAI_API_KEY = 'test-key';
+    process.env.OPENAI_BASE_URL = `${api.url}/v1`;
+    // env.ts reads the environment when it is first imported
+    const { OpenAIProvider } = await import('@/services/openaiProvider');
+    provider = new OpenAIProvider();
+  });
+
+  afterAll(async () => {
+    await api.close();
+  });
+
+  beforeEach(() => {
+    api.requests.length = 0;
+  });
+
+  it('sends the whole conversation with the chosen model and returns the reply text', async () => {
+    api.respond((_request, response) => sendJson(response, completion({ content: 'Hello there' })));
+    const usage: TokenUsage[] = [];
+
+    const content = await provider.sendMessage(
+      [user('Hi'), { role: 'assistant', content: [{ type: 'text', content: 'Hello!' }], timestamp: new Date() }, user('How are you?')],
+      'gpt-4o-mini',
+      { onUsage: entry => usage.push(entry), generation: { systemPrompt: 'Be brief', temperature: 0.2 } }
+    );
+
+    expect(content).toEqual([{ type: 'text', content: 'Hello there' }]);
+    expect(usage).toEqual([{ model: 'gpt-4o-mini', inputTokens: 12, outputTokens: 5 }]);
+
+    const [request] = api.requests;
+    expect(request.path).toBe('/v1/chat/completions');
+    expect(request.headers.authorization).toBe('Bearer test-key');
+    expect(request.body.model).toBe('gpt-4o-mini');
+    expect(request.body.temperature).toBe(0.2);
+    expect(request.body.messages).toEqual([
+      { role: 'system', content: 'Be brief' },
+      { role: 'user', content: 'Hi' },
+      { role: 'assistant', content: 'Hello!' },
+      { role: 'user', content: 'How are you?' }
+    ]);
+  });
+
+  it('replays earlier tool calls as assistant tool_calls followed by tool results', async () => {
+    api.respond((_request, response) => sendJson(response, completion({ content: 'Done' })));
+
+    await provider.sendMessage([
+      user('List files'),
+      {
+        role: 'assistant',
+        content: [{
+          type: 'tool',
+          content: { id: 'call_1', name: 'list_directory', input: { path: '.' }, status: 'completed', result: 'a.txt' }
+        }],
+        timestamp: new Date()
+      },
+      user('Thanks')
+    ], 'gpt-4o');
+
+    expect(api.requests[0].body.messages).toEqual([
+      { role: 'user', content: 'List files' },
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'list_directory', arguments: '{"path":"."}' } }]
+      },
+      { role: 'tool', tool_call_id: 'call_1', content: 'a.txt' },
+      { role: 'user', content: 'Thanks' }
+    ]);
+  });
+
+  it('maps tool calls to tool content and keeps malformed arguments as the raw string', async () => {
+    api.respond((_request, response) => sendJson(response, completion({
+      content: null,
+      tool_calls: [
+        { id: 'call_1', type: 'function', function: { name: 'list_directory', arguments: '{"path":"/tmp"}' } },
+        { id: 'call_2', type: 'function', function: { name: 'read_file', arguments: '{"path":' } }
+      ]
+    })));
+
+    const content = await provider.sendMessage([user('Look around')], 'gpt-4o', {
+      tools: [{ name: 'list_directory', description: 'List a folder', inputSchema: { type: 'object' } }]
+    });
+
+    expect(content).toEqual([
+      { type: 'tool', content: { id: 'call_1', name: 'list_directory', input: { path: '/tmp' } } },
+      { type: 'tool', content: { id: 'call_2', name: 'read_file', input: '{"path":' } }
+    ]);
+    expect(api.requests[0].body.tools).toEqual([
+      { type: 'function', function: { name: 'list_directory', description: 'List a folder', parameters: { type: 'object' } } }
+    ]);
+  });
+
+  it('streams text and tool call fragments, then reports usage from the final chunk', async () => {
+    api.respond((_request, response) => sendEventStream(response, [
+      chunk({ role: 'assistant', content: 'Let me ' }),
+      chunk({ content: 'check.' }),
+      chunk({ tool_calls: [{ index: 0, id: 'call_9', type: 'function', function: { name: 'list_directory', arguments: '{"pa' } }] }),
+      chunk({ tool_calls: [{ index: 0, function: { arguments: 'th":"."}' } }] }),
+      chunk({}, { prompt_tokens: 20, completion_tokens: 8, total_tokens: 28 })
+    ]));
+    const usage: TokenUsage[] = [];
+
+    const deltas: ChatStreamDelta[] = [];
+    for await (const delta of provider.streamMessage([user('List files')], 'gpt-4o', { onUsage: entry => usage.push(entry) })) {
+      deltas.push(delta);
+    }
+
+    expect(api.requests[0].body.stream).toBe(true);
+    expect(deltas).toEqual([
+      { type: 'text', content: 'Let me ' },
+      { type: 'text', content: 'check.' },
+      { type: 'tool_start', content: { id: 'call_9', name: 'list_directory', input: {} } },
+      { type: 'tool_finish', content: { id: 'call_9', name: 'list_directory', input: { path: '.' } } }
+    ]);
+    expect(usage).toEqual([{ model: 'gpt-4o', inputTokens: 20, outputTokens: 8 }]);
+  });
+
+  it('describes earlier images to a text-only model but rejects a new one', async () => {
+    api.respond((_request, response) => sendJson(response, completion({ content: 'ok' })));
+    const withImage: ChatMessage = {
+      role: 'user',
+      content: [{ type: 'text', content: 'What is this?' }, { type: 'image', content: { base64: 'AAAA', mimeType: 'image/png' } }],
+      timestamp: new Date()
+    };
+
+    await provider.sendMessage([withImage, user('And now?')], 'gpt-3.5-turbo');
+    expect(api.requests[0].body.messages[0].content).toContain('this model cannot see images');
+
+    await expect(provider.sendMessage([withImage], 'gpt-3.5-turbo')).rejects.toThrow('does not accept images');
+    expect(api.requests).toHaveLength(1);
+  });
+
+  it('surfaces API errors to the caller', async () => {
+    api.respond((_request, response) => sendJson(response, { error: { message: 'Bad model', type: 'invalid_request_error' } }, 400));
+
+    await expect(provider.sendMessage([user('Hi')], 'gpt-4o')).rejects.toThrow('Bad model');
+  });
+});
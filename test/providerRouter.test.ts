@@ -0,0 +1,88 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { ProviderRouter } from '@/services/providerRouter';
+import type { ProviderFactory } from '@/services/providerFactory';
+import type { GenerationContext } from '@/services/generationContext';
+import { ChatContent, ChatMessage } from '@/lib/types/chat';
+
+const user = (text: string): ChatMessage => ({ role: 'user', content: [{ type: 'text', content: text }], timestamp: new Date() });
+
+const reply = (text: string): ChatContent[] => [{ type: 'text', content: text }];
+
+const httpError = (status: number) => Object.assign(new Error(`Request failed with status ${status}`), { status });
+
+describe('ProviderRouter', () => {
+  let router: typeof ProviderRouter;
+  let factory: typeof ProviderFactory;
+  let context: typeof GenerationContext;
+
+  beforeAll(async () => {
+    // Gemini has no key, so it is in the chain but never available
+    process.env.OPENAI_API_KEY = 'test-key';
+    process.env.ANTHROPIC_API_KEY = 'test-key';
+    delete process.env.GOOGLE_API_KEY;
+    process.env.PROVIDER_FALLBACK_CHAIN = 'gemini:gemini-2.5-flash,claude:Claude-Sonnet-4,openai:gpt-4o';
+    // env.ts reads the environment when it is first imported
+    ({ ProviderRouter: router } = await import('@/services/providerRouter'));
+    ({ ProviderFactory: factory } = await import('@/services/providerFactory'));
+    ({ GenerationContext: context } = await import('@/services/generationContext'));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const stub = (name: string) => vi.spyOn(factory.getProvider(name)!, 'sendMessage');
+
+  it('leaves providers without credentials out of the chain', () => {
+    expect(router.getCandidates('auto', 'default')).toEqual([
+      { provider: 'claude', model: 'Claude-Sonnet-4' },
+      { provider: 'openai', model: 'gpt-4o' }
+    ]);
+    expect(router.getCandidates('openai', 'gpt-4o').map(candidate => candidate.provider)).toEqual(['openai', 'claude']);
+  });
+
+  it.each([
+    ['a rate limit', httpError(429)],
+    ['a server error', httpError(503)],
+    ['a network error', new TypeError('fetch failed')]
+  ])('fails over to the next provider on %s', async (_label, error) => {
+    const openai = stub('openai').mockRejectedValue(error);
+    const claude = stub('claude').mockResolvedValue(reply('From Claude'));
+
+    const messages = [user('Hi')];
+    const content = await router.route('openai')!.sendMessage(messages, 'gpt-4o');
+
+    expect(content).toEqual(reply('From Claude'));
+    expect(openai).toHaveBeenCalledTimes(1);
+    expect(claude).toHaveBeenCalledWith(messages, 'Claude-Sonnet-4', expect.anything());
+  });
+
+  it('passes a bad request on instead of trying another provider', async () => {
+    stub('openai').mockRejectedValue(httpError(400));
+    const claude = stub('claude');
+
+    await expect(router.route('openai')!.sendMessage([user('Hi')], 'gpt-4o')).rejects.toThrow('status 400');
+    expect(claude).not.toHaveBeenCalled();
+  });
+
+  it('keeps every call of a turn on the provider that answered its first call', async () => {
+    const openai = stub('openai')
+      .mockRejectedValueOnce(httpError(503))
+      .mockResolvedValue(reply('From OpenAI'));
+    const claude = stub('claude').mockResolvedValue(reply('From Claude'));
+    const provider = router.route('openai')!;
+
+    const { result, route } = await context.run(undefined, async () => [
+      await provider.sendMessage([user('Hi')], 'gpt-4o'),
+      await provider.sendMessage([user('And again')], 'gpt-4o')
+    ]);
+
+    expect(result).toEqual([reply('From Claude'), reply('From Claude')]);
+    expect(route).toEqual({ provider: 'claude', model: 'Claude-Sonnet-4' });
+    expect(openai).toHaveBeenCalledTimes(1);
+    expect(claude).toHaveBeenCalledTimes(2);
+
+    // The next turn starts from the requested provider again
+    expect(await provider.sendMessage([user('New turn')], 'gpt-4o')).toEqual(reply('From OpenAI'));
+  });
+});
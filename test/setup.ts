@@ -0,0 +1,4 @@
+import { vi } from 'vitest';
+
+// The cache service connects to Redis on import; tests run against an in-memory stand-in
+vi.mock('ioredis', async () => ({ default: (await import('ioredis-mock')).default }));
@@ -0,0 +1,90 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod/v4';
+import type { LLMFormatting, StructuredOutputError, parseStructuredReply } from '@/lib/interfaces/LLMFormattingInterface';
+import type { ProviderFactory } from '@/services/providerFactory';
+import { ChatContent, ChatMessage } from '@/lib/types/chat';
+
+const user = (text: string): ChatMessage => ({ role: 'user', content: [{ type: 'text', content: text }], timestamp: new Date() });
+
+const reply = (text: string): ChatContent[] => [{ type: 'text', content: text }];
+
+const outcome = {
+  userExplanation: 'Lists the files in the folder.',
+  safetyAnalysis: 'Read-only, low risk.',
+  modifiesData: false,
+  deletesData: false,
+  accessesSensitiveData: false,
+  affectsSystem: false
+};
+
+const lastUserText = (messages: ChatMessage[]) => messages[messages.length - 1].content[0].content as string;
+
+describe('structured analysis replies', () => {
+  let formatting: LLMFormatting;
+  let factory: typeof ProviderFactory;
+  let parse: typeof parseStructuredReply;
+  let OutputError: typeof StructuredOutputError;
+
+  beforeAll(async () => {
+    // Without vendor keys the mock provider has no fallbacks to route to
+    delete process.env.OPENAI_API_KEY;
+    delete process.env.ANTHROPIC_API_KEY;
+    delete process.env.GOOGLE_API_KEY;
+    // env.ts reads the environment when it is first imported
+    const module = await import('@/lib/interfaces/LLMFormattingInterface');
+    ({ ProviderFactory: factory } = await import('@/services/providerFactory'));
+    formatting = new module.LLMFormatting('mock');
+    parse = module.parseStructuredReply;
+    OutputError = module.StructuredOutputError;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const stub = () => vi.spyOn(factory.getProvider('mock')!, 'sendMessage');
+
+  describe('parseStructuredReply', () => {
+    const schema = z.object({ needsTools: z.boolean() });
+
+    it('reads the JSON object out of a fenced reply', () => {
+      expect(parse('Sure:\n```json\n{"needsTools": true}\n```', schema)).toEqual({ success: true, data: { needsTools: true } });
+    });
+
+    it('explains why a reply is unusable', () => {
+      expect(parse('I cannot answer that.', schema)).toEqual({ success: false, error: 'The reply contains no JSON object' });
+      expect(parse('{"needsTools": yes}', schema)).toMatchObject({ success: false, error: expect.stringContaining('not valid JSON') });
+      expect(parse('{"needsTools": "yes"}', schema)).toMatchObject({ success: false, error: expect.stringContaining('needsTools') });
+    });
+  });
+
+  it('returns a valid reply from a single call', async () => {
+    const sendMessage = stub().mockResolvedValue(reply(JSON.stringify(outcome)));
+
+    await expect(formatting.analyzeToolOutcome('list_directory', { path: '.' }, [user('List files')])).resolves.toEqual(outcome);
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+    expect(sendMessage.mock.calls[0][2]?.responseFormat?.name).toBe('analyze_tool_outcome');
+  });
+
+  it('sends an invalid reply back with its errors and returns the repaired one', async () => {
+    const sendMessage = stub()
+      .mockResolvedValueOnce(reply('The tool lists files.'))
+      .mockResolvedValueOnce(reply(JSON.stringify(outcome)));
+
+    await expect(formatting.analyzeToolOutcome('read_file', { path: 'notes.txt' }, [user('Read my notes')])).resolves.toEqual(outcome);
+    expect(sendMessage).toHaveBeenCalledTimes(2);
+
+    const repairRequest = sendMessage.mock.calls[1][0];
+    expect(repairRequest[repairRequest.length - 2].content).toEqual(reply('The tool lists files.'));
+    expect(lastUserText(repairRequest)).toContain('The reply contains no JSON object');
+  });
+
+  it('throws StructuredOutputError when the repaired reply is still invalid', async () => {
+    stub().mockResolvedValue(reply(JSON.stringify({ ...outcome, deletesData: 'maybe' })));
+
+    const analysis = formatting.analyzeToolOutcome('delete_file', { path: 'notes.txt' }, [user('Delete my notes')]);
+
+    await expect(analysis).rejects.toBeInstanceOf(OutputError);
+    await expect(analysis).rejects.toMatchObject({ operation: 'analyze_tool_outcome', validationError: expect.stringContaining('deletesData') });
+  });
+});
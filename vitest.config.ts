@@ -0,0 +1,14 @@
+import { defineConfig } from 'vitest/config';
+import { fileURLToPath } from 'url';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('./src', import.meta.url)) }
+  },
+  test: {
+    environment: 'node',
+    include: ['test/**/*.test.ts'],
+    setupFiles: ['test/setup.ts'],
+    testTimeout: 20000
+  }
+});